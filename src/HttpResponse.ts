@@ -0,0 +1,179 @@
+import { CookieSigner, serializeCookie } from './cookies';
+import { HttpHeaders } from './headers';
+import type { ICookieOptions } from './interfaces/ICookie';
+import type { IRequest } from './interfaces/IRequest';
+import type { IPushPromise, IResponse } from './interfaces/IResponse';
+import type { ISseOptions, ISseStream } from './interfaces/ISseStream';
+import { SseStream } from './sse';
+
+/**
+ * Default IResponse implementation handed to middlewares and route handlers.
+ *
+ * Calling `send` marks the response as sent, but it stays mutable so that
+ * middleware `after` hooks can still adjust status, headers and body. The
+ * server calls `finish` right before the response is passed to the engine;
+ * from then on every mutation throws.
+ */
+export class HttpResponse<TBody = unknown> implements IResponse<TBody> {
+  private _status?: number; // Don't default to 200
+  private _headers = new HttpHeaders();
+  private _trailers = new HttpHeaders();
+  private _pushes: IPushPromise[] = [];
+  private _body?: TBody;
+  private _sent: boolean = false;
+  private _finished: boolean = false;
+  private readonly _request?: IRequest;
+  private readonly _signer?: CookieSigner;
+
+  constructor(request?: IRequest, signer?: CookieSigner) {
+    this._request = request;
+    this._signer = signer;
+  }
+
+  public get status(): number {
+    // If no status was explicitly set, default to 200 for successful responses
+    return this._status ?? 200;
+  }
+
+  public set status(code: number) {
+    this.setStatus(code);
+  }
+
+  public get headers(): Record<string, string> {
+    return this._headers.toRecord();
+  }
+
+  public get rawHeaders(): [string, string][] {
+    return this._headers.raw();
+  }
+
+  public get trailers(): Record<string, string> {
+    return this._trailers.toRecord();
+  }
+
+  public get pushes(): IPushPromise[] {
+    return [...this._pushes];
+  }
+
+  public get body(): TBody | undefined {
+    return this._body;
+  }
+
+  public set body(data: TBody | undefined) {
+    this.assertNotFinished('Cannot set body after response has been finished');
+    this._body = data;
+  }
+
+  public get sent(): boolean {
+    return this._sent;
+  }
+
+  public get finished(): boolean {
+    return this._finished;
+  }
+
+  public setStatus(code: number): IResponse<TBody> {
+    this.assertNotFinished('Cannot set status after response has been finished');
+    this._status = code;
+    return this;
+  }
+
+  public setHeader(name: string, value: string): IResponse<TBody> {
+    this.assertNotFinished('Cannot set headers after response has been finished');
+    this._headers.set(name, value);
+    return this;
+  }
+
+  public appendHeader(name: string, value: string): IResponse<TBody> {
+    this.assertNotFinished('Cannot set headers after response has been finished');
+    this._headers.append(name, value);
+    return this;
+  }
+
+  public removeHeader(name: string): IResponse<TBody> {
+    this.assertNotFinished('Cannot remove headers after response has been finished');
+    this._headers.delete(name);
+    return this;
+  }
+
+  public push(path: string, headers: Record<string, string> = {}): IResponse<TBody> {
+    this.assertNotFinished('Cannot push after response has been finished');
+    if (!path.startsWith('/')) {
+      throw new Error(`Push path must start with "/": ${path}`);
+    }
+
+    this._pushes.push({ path, headers });
+    return this;
+  }
+
+  // Unlike headers, trailers may still be set while a stream body is being written
+  public setTrailer(name: string, value: string): IResponse<TBody> {
+    this._trailers.set(name, value);
+    return this;
+  }
+
+  public setCookie(name: string, value: string, options: ICookieOptions = {}): IResponse<TBody> {
+    if (options.signed && !this._signer) {
+      throw new Error('Signed cookies need keys in ServerOptions.cookies');
+    }
+
+    const cookieValue = options.signed ? this._signer!.sign(name, value) : value;
+    return this.appendHeader('set-cookie', serializeCookie(name, cookieValue, options));
+  }
+
+  public clearCookie(name: string, options: ICookieOptions = {}): IResponse<TBody> {
+    return this.setCookie(name, '', {
+      ...options,
+      signed: false,
+      maxAge: undefined,
+      expires: new Date(0),
+    });
+  }
+
+  public json(data: TBody): void {
+    this.setHeader('content-type', 'application/json');
+    this.send(data);
+  }
+
+  public send(data?: TBody): void {
+    if (this._sent) {
+      throw new Error('Response has already been sent');
+    }
+
+    // If no status was set and we're sending data, assume 200
+    if (this._status === undefined) {
+      this._status = 200;
+    }
+
+    this.body = data;
+    this._sent = true;
+  }
+
+  public sse(options?: ISseOptions): ISseStream {
+    if (this._sent) {
+      throw new Error('Response has already been sent');
+    }
+
+    const stream = new SseStream(this._request?.headers['last-event-id'], options);
+
+    this.setHeader('content-type', 'text/event-stream; charset=utf-8');
+    this.setHeader('cache-control', 'no-cache');
+    // Keep reverse proxies from buffering the event stream
+    this.setHeader('x-accel-buffering', 'no');
+    this.send(stream.body as TBody);
+
+    return stream;
+  }
+
+  // Locks the response once it is handed over to the engine
+  public finish(): void {
+    this._sent = true;
+    this._finished = true;
+  }
+
+  private assertNotFinished(message: string): void {
+    if (this._finished) {
+      throw new Error(message);
+    }
+  }
+}
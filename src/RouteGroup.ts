@@ -1,21 +1,23 @@
 import { IMiddleware } from './interfaces/IMiddleware';
 import { HttpMethod } from './interfaces/IRequest';
-import { IRoute } from './interfaces/IRoute';
-import { IRouteGroup } from './interfaces/IRouteGroup';
+import { IRoute, RouteDefinition } from './interfaces/IRoute';
+import { IRouteGroup, IRouteGroupOptions } from './interfaces/IRouteGroup';
 
 export class RouteGroup implements IRouteGroup {
   public readonly prefix: string;
-  public readonly routes: IRoute[];
+  public readonly routes: RouteDefinition[];
   public readonly middlewares: IMiddleware[];
   public readonly description?: string;
   public readonly tags?: string[];
+  public readonly options: IRouteGroupOptions;
 
   constructor(
     prefix: string,
-    routes: IRoute[],
+    routes: RouteDefinition[],
     middlewares: IMiddleware[] = [],
     description?: string,
-    tags?: string[]
+    tags?: string[],
+    options: IRouteGroupOptions = {}
   ) {
     // Validate and normalize prefix
     this.prefix = this.normalizePrefix(prefix);
@@ -25,6 +27,7 @@ export class RouteGroup implements IRouteGroup {
     this.middlewares = middlewares;
     this.description = description;
     this.tags = tags;
+    this.options = options;
 
     // Validate route paths don't conflict with prefix
     this.validateRoutes();
@@ -46,7 +49,7 @@ export class RouteGroup implements IRouteGroup {
     const routeKeys = new Set<string>();
 
     for (const route of this.routes) {
-      const routeKey = `${route.method}:${this.prefix}${route.path}`;
+      const routeKey = this.routeKey(route);
 
       if (routeKeys.has(routeKey)) {
         throw new Error(`Duplicate route detected: ${routeKey}`);
@@ -56,11 +59,17 @@ export class RouteGroup implements IRouteGroup {
     }
   }
 
+  // WebSocket routes are keyed as WS so they can share a path with HTTP routes
+  private routeKey(route: RouteDefinition): string {
+    const method = 'kind' in route ? 'WS' : route.method;
+    return `${method}:${this.prefix}${route.path}`;
+  }
+
   // Method to add individual routes after creation
-  public addRoute(route: IRoute): RouteGroup {
+  public addRoute(route: RouteDefinition): RouteGroup {
     // Check for conflicts before adding
-    const routeKey = `${route.method}:${this.prefix}${route.path}`;
-    const existingRoute = this.routes.find(r => `${r.method}:${this.prefix}${r.path}` === routeKey);
+    const routeKey = this.routeKey(route);
+    const existingRoute = this.routes.find(r => this.routeKey(r) === routeKey);
 
     if (existingRoute) {
       throw new Error(`Route already exists: ${routeKey}`);
@@ -71,7 +80,8 @@ export class RouteGroup implements IRouteGroup {
       [...this.routes, route],
       this.middlewares,
       this.description,
-      this.tags
+      this.tags,
+      this.options
     );
   }
 
@@ -82,22 +92,47 @@ export class RouteGroup implements IRouteGroup {
       this.routes,
       [...this.middlewares, middleware],
       this.description,
-      this.tags
+      this.tags,
+      this.options
     );
   }
 
   // Method to get all routes with prefixed paths
-  public getPrefixedRoutes(): IRoute[] {
-    return this.routes.map(route => ({
-      ...route,
-      path: this.prefix + route.path,
-      middlewares: [...this.middlewares, ...(route.middlewares || [])],
-    }));
+  public getPrefixedRoutes(): RouteDefinition[] {
+    return this.routes.map(route => {
+      const prefixed = {
+        path: this.prefix + route.path,
+        middlewares: [...this.middlewares, ...(route.middlewares || [])],
+        tags: this.merge(this.tags, route.tags),
+        roles: this.merge(this.options.roles, route.roles),
+        scopes: this.merge(this.options.scopes, route.scopes),
+      };
+
+      if ('kind' in route) {
+        return { ...route, ...prefixed };
+      }
+
+      return {
+        ...route,
+        ...prefixed,
+        bodyLimit: route.bodyLimit ?? this.options.bodyLimit,
+        cors: route.cors ?? this.options.cors,
+      };
+    });
+  }
+
+  // Group values come first; duplicates are dropped
+  private merge(groupValues: string[] = [], values: string[] = []): string[] | undefined {
+    const merged = [...new Set([...groupValues, ...values])];
+    return merged.length > 0 ? merged : undefined;
   }
 
   // Method to find a specific route
   public findRoute(method: HttpMethod, path: string): IRoute | undefined {
-    return this.routes.find(route => route.method === method && route.path === path);
+    return this.routes.find(
+      (route): route is IRoute =>
+        !('kind' in route) && route.method === method && route.path === path
+    );
   }
 
   // Method to get route count
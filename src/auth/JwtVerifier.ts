@@ -0,0 +1,165 @@
+import {
+  createHmac,
+  createPublicKey,
+  createSecretKey,
+  KeyObject,
+  timingSafeEqual,
+  verify,
+  type JsonWebKey,
+} from 'crypto';
+import type { IJwtClaims, IJwtKey, IJwtVerifyOptions, JwtAlgorithm } from '../interfaces/IAuth';
+
+// Raised for tokens that fail verification; the message is safe to show to clients
+export class JwtError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JwtError';
+  }
+}
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+  typ?: string;
+}
+
+interface PreparedKey {
+  kid?: string;
+  algorithm: JwtAlgorithm;
+  key: KeyObject;
+}
+
+/**
+ * Verifies compact JWS tokens signed with HS256, RS256 or ES256. The token's
+ * `alg` must match the algorithm declared for the key, so a public key can
+ * never be used as an HMAC secret.
+ */
+export class JwtVerifier {
+  private readonly staticKeys?: PreparedKey[];
+
+  constructor(private readonly options: IJwtVerifyOptions) {
+    if (Array.isArray(options.keys)) {
+      this.staticKeys = options.keys.map(key => this.prepareKey(key));
+    }
+  }
+
+  public async verify(token: string): Promise<IJwtClaims> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new JwtError('Malformed token');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = this.decodeJson<JwtHeader>(encodedHeader);
+    const claims = this.decodeJson<IJwtClaims>(encodedPayload);
+
+    const candidates = (await this.getKeys()).filter(
+      key => key.algorithm === header.alg && (!header.kid || !key.kid || key.kid === header.kid)
+    );
+    if (candidates.length === 0) {
+      throw new JwtError('No key matches the token');
+    }
+
+    const data = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    const signature = Buffer.from(encodedSignature, 'base64url');
+    if (!candidates.some(key => this.isSignatureValid(key, data, signature))) {
+      throw new JwtError('Invalid signature');
+    }
+
+    this.checkClaims(claims);
+    return claims;
+  }
+
+  private async getKeys(): Promise<PreparedKey[]> {
+    if (this.staticKeys) {
+      return this.staticKeys;
+    }
+    const keys = await (this.options.keys as () => IJwtKey[] | Promise<IJwtKey[]>)();
+    return keys.map(key => this.prepareKey(key));
+  }
+
+  private prepareKey({ kid, algorithm, key }: IJwtKey): PreparedKey {
+    if (key instanceof KeyObject) {
+      return { kid, algorithm, key };
+    }
+    if (algorithm === 'HS256') {
+      return { kid, algorithm, key: createSecretKey(Buffer.from(key as string | Buffer)) };
+    }
+    if (typeof key === 'string' || Buffer.isBuffer(key)) {
+      return { kid, algorithm, key: createPublicKey(key) };
+    }
+    return { kid, algorithm, key: createPublicKey({ key: key as JsonWebKey, format: 'jwk' }) };
+  }
+
+  private isSignatureValid(key: PreparedKey, data: Buffer, signature: Buffer): boolean {
+    try {
+      return this.checkSignature(key, data, signature);
+    } catch {
+      // A key of the wrong type for its algorithm cannot verify anything
+      return false;
+    }
+  }
+
+  private checkSignature(key: PreparedKey, data: Buffer, signature: Buffer): boolean {
+    switch (key.algorithm) {
+      case 'HS256': {
+        const expected = createHmac('sha256', key.key).update(data).digest();
+        return expected.length === signature.length && timingSafeEqual(expected, signature);
+      }
+      case 'RS256':
+        return verify('sha256', data, key.key, signature);
+      case 'ES256':
+        // JWS carries the raw r || s pair rather than DER
+        return verify('sha256', data, { key: key.key, dsaEncoding: 'ieee-p1363' }, signature);
+    }
+  }
+
+  private checkClaims(claims: IJwtClaims): void {
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = this.options.clockTolerance ?? 0;
+
+    if (claims.exp === undefined) {
+      if (this.options.requireExpiry ?? true) {
+        throw new JwtError('Token has no expiry');
+      }
+    } else if (typeof claims.exp !== 'number' || now >= claims.exp + tolerance) {
+      throw new JwtError('Token expired');
+    }
+
+    if (
+      claims.nbf !== undefined &&
+      (typeof claims.nbf !== 'number' || now + tolerance < claims.nbf)
+    ) {
+      throw new JwtError('Token not yet valid');
+    }
+
+    const issuers = toList(this.options.issuer);
+    if (issuers.length > 0 && !issuers.includes(claims.iss as string)) {
+      throw new JwtError('Unexpected issuer');
+    }
+
+    const audiences = toList(this.options.audience);
+    if (audiences.length > 0 && !toList(claims.aud).some(aud => audiences.includes(aud))) {
+      throw new JwtError('Unexpected audience');
+    }
+  }
+
+  private decodeJson<T>(segment: string): T {
+    try {
+      const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error('Not an object');
+      }
+      return value as T;
+    } catch {
+      throw new JwtError('Malformed token');
+    }
+  }
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
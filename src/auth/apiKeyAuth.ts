@@ -0,0 +1,63 @@
+import type { IApiKeyAuthOptions, IPrincipal } from '../interfaces/IAuth';
+import type { IMiddleware } from '../interfaces/IMiddleware';
+import type { IRequest } from '../interfaces/IRequest';
+import type { IResponse } from '../interfaces/IResponse';
+import { challenge, safeEqual } from './credentials';
+
+/**
+ * API key authentication from a header or, when enabled, a query parameter.
+ * Keys in the query string end up in access logs and browser history, so
+ * prefer the header.
+ */
+export function apiKeyAuth(options: IApiKeyAuthOptions): IMiddleware {
+  const header = (options.header ?? 'x-api-key').toLowerCase();
+  const realm = options.realm ?? 'api';
+  const refuse = (message?: string) => challenge('ApiKey', { realm, header }, message);
+
+  return {
+    async before(request: IRequest, _response: IResponse, next: () => void): Promise<void> {
+      const queryValue = options.query ? request.query[options.query] : undefined;
+      const key =
+        request.headers[header] ?? (typeof queryValue === 'string' ? queryValue : undefined);
+
+      if (!key) {
+        if (options.optional) {
+          return next();
+        }
+        throw refuse();
+      }
+
+      const principal = await authenticate(options, key, request);
+      if (!principal) {
+        throw refuse('Invalid API key');
+      }
+
+      request.state.principal = principal;
+      return next();
+    },
+  };
+}
+
+async function authenticate(
+  options: IApiKeyAuthOptions,
+  key: string,
+  request: IRequest
+): Promise<IPrincipal | undefined> {
+  // Check every entry so the time taken does not depend on where a match is
+  let match: string | IPrincipal | undefined;
+  for (const [candidate, owner] of Object.entries(options.keys ?? {})) {
+    if (safeEqual(candidate, key)) {
+      match = owner;
+    }
+  }
+
+  if (match !== undefined) {
+    return typeof match === 'string' ? { id: match, scheme: 'apiKey' } : match;
+  }
+
+  const result = await options.verify?.(key, request);
+  if (result === true) {
+    return { id: 'api-key', scheme: 'apiKey' };
+  }
+  return result || undefined;
+}
@@ -0,0 +1,38 @@
+import { ForbiddenError, UnauthorizedError } from '../errors';
+import type { IAccessRequirements, IPrincipal } from '../interfaces/IAuth';
+
+export function hasAccessRequirements({ roles, scopes }: IAccessRequirements): boolean {
+  return (roles?.length ?? 0) > 0 || (scopes?.length ?? 0) > 0;
+}
+
+/**
+ * Checks a principal against declared roles and scopes: 401 when there is no
+ * principal, 403 when it lacks any of them. Bearer callers missing scopes get
+ * the RFC 6750 `insufficient_scope` challenge.
+ */
+export function authorize(
+  principal: IPrincipal | undefined,
+  requirements: IAccessRequirements
+): void {
+  if (!principal) {
+    throw new UnauthorizedError();
+  }
+
+  if (missing(requirements.roles, principal.roles).length > 0) {
+    throw new ForbiddenError('Insufficient role');
+  }
+
+  if (missing(requirements.scopes, principal.scopes).length > 0) {
+    const headers: Record<string, string> =
+      principal.scheme === 'bearer'
+        ? {
+            'www-authenticate': `Bearer error="insufficient_scope", scope="${requirements.scopes!.join(' ')}"`,
+          }
+        : {};
+    throw new ForbiddenError('Insufficient scope', { headers });
+  }
+}
+
+function missing(required: string[] = [], granted: string[] = []): string[] {
+  return required.filter(value => !granted.includes(value));
+}
@@ -0,0 +1,64 @@
+import type { IBasicAuthOptions, IPrincipal } from '../interfaces/IAuth';
+import type { IMiddleware } from '../interfaces/IMiddleware';
+import type { IRequest } from '../interfaces/IRequest';
+import type { IResponse } from '../interfaces/IResponse';
+import { challenge, readAuthorization, safeEqual } from './credentials';
+
+/**
+ * HTTP Basic authentication against a users map, a verify callback, or
+ * both. Only use it over TLS: the password travels with every request.
+ */
+export function basicAuth(options: IBasicAuthOptions): IMiddleware {
+  const realm = options.realm ?? 'api';
+  const refuse = () => challenge('Basic', { realm, charset: 'UTF-8' });
+
+  return {
+    async before(request: IRequest, _response: IResponse, next: () => void): Promise<void> {
+      const encoded = readAuthorization(request.headers['authorization'], 'Basic');
+      if (!encoded) {
+        if (options.optional) {
+          return next();
+        }
+        throw refuse();
+      }
+
+      const decoded = Buffer.from(encoded, 'base64').toString('utf8');
+      const separator = decoded.indexOf(':');
+      if (separator === -1) {
+        throw refuse();
+      }
+
+      const username = decoded.slice(0, separator);
+      const password = decoded.slice(separator + 1);
+      const principal = await authenticate(options, username, password, request);
+      if (!principal) {
+        throw refuse();
+      }
+
+      request.state.principal = principal;
+      return next();
+    },
+  };
+}
+
+async function authenticate(
+  options: IBasicAuthOptions,
+  username: string,
+  password: string,
+  request: IRequest
+): Promise<IPrincipal | undefined> {
+  if (options.users) {
+    const known = Object.prototype.hasOwnProperty.call(options.users, username);
+    // Compare against a dummy for unknown users so timing does not reveal which names exist
+    const matches = safeEqual(known ? options.users[username] : '', password);
+    if (known && matches) {
+      return { id: username, scheme: 'basic' };
+    }
+  }
+
+  const result = await options.verify?.(username, password, request);
+  if (result === true) {
+    return { id: username, scheme: 'basic' };
+  }
+  return result || undefined;
+}
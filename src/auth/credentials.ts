@@ -0,0 +1,29 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { UnauthorizedError } from '../errors';
+
+// Compares digests so neither the content nor the length of the secret leaks through timing
+export function safeEqual(a: string, b: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+// Credentials after the scheme in an Authorization header, matched case-insensitively
+export function readAuthorization(header: string | undefined, scheme: string): string | undefined {
+  const match = /^(\S+)\s+(.+)$/.exec(header?.trim() ?? '');
+  return match && match[1].toLowerCase() === scheme.toLowerCase() ? match[2].trim() : undefined;
+}
+
+// 401 carrying a WWW-Authenticate challenge, e.g. `Bearer realm="api", error="invalid_token"`
+export function challenge(
+  scheme: string,
+  params: Record<string, string | undefined>,
+  message?: string
+): UnauthorizedError {
+  const attributes = Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}="${value!.replace(/["\\]/g, '\\$&')}"`);
+
+  return new UnauthorizedError(message, {
+    headers: { 'www-authenticate': [scheme, attributes.join(', ')].filter(Boolean).join(' ') },
+  });
+}
@@ -0,0 +1,6 @@
+export * from './apiKeyAuth';
+export * from './authorize';
+export * from './basicAuth';
+export * from './credentials';
+export * from './jwtAuth';
+export * from './JwtVerifier';
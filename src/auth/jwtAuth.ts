@@ -0,0 +1,59 @@
+import type { IMiddleware } from '../interfaces/IMiddleware';
+import type { IJwtAuthOptions, IJwtClaims, IPrincipal } from '../interfaces/IAuth';
+import type { IRequest } from '../interfaces/IRequest';
+import type { IResponse } from '../interfaces/IResponse';
+import { challenge, readAuthorization } from './credentials';
+import { JwtError, JwtVerifier } from './JwtVerifier';
+
+/**
+ * Bearer token authentication with JWTs. Register it globally, on a
+ * RouteGroup or on a route; the verified caller is available as
+ * `request.state.principal`. Failures answer 401 with an RFC 6750 challenge.
+ */
+export function jwtAuth(options: IJwtAuthOptions): IMiddleware {
+  const verifier = new JwtVerifier(options);
+  const realm = options.realm ?? 'api';
+  const toPrincipal = options.principal ?? defaultPrincipal;
+
+  return {
+    async before(request: IRequest, _response: IResponse, next: () => void): Promise<void> {
+      const token = readAuthorization(request.headers['authorization'], 'Bearer');
+      if (!token) {
+        if (options.optional) {
+          return next();
+        }
+        throw challenge('Bearer', { realm });
+      }
+
+      let claims: IJwtClaims;
+      try {
+        claims = await verifier.verify(token);
+      } catch (error: unknown) {
+        if (error instanceof JwtError) {
+          throw challenge(
+            'Bearer',
+            { realm, error: 'invalid_token', error_description: error.message },
+            error.message
+          );
+        }
+        throw error;
+      }
+
+      request.state.principal = await toPrincipal(claims, request);
+      return next();
+    },
+  };
+}
+
+// Reads roles from `roles` and scopes from the OAuth `scope` string or `scp` list
+function defaultPrincipal(claims: IJwtClaims): IPrincipal {
+  const scopes = typeof claims.scope === 'string' ? claims.scope.split(' ') : claims.scp;
+
+  return {
+    id: claims.sub ?? '',
+    scheme: 'bearer',
+    roles: Array.isArray(claims.roles) ? claims.roles.map(String) : undefined,
+    scopes: Array.isArray(scopes) ? scopes.map(String).filter(Boolean) : undefined,
+    claims,
+  };
+}
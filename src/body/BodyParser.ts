@@ -0,0 +1,105 @@
+import type { Readable } from 'stream';
+import type { IBodyParser } from '../interfaces/IBodyParser';
+import type { IRequest } from '../interfaces/IRequest';
+import { PayloadTooLargeError, UnsupportedMediaTypeError } from '../errors';
+import { matchesContentType, parseContentType } from './contentType';
+import { JsonParser, MultipartParser, RawParser, TextParser, UrlEncodedParser } from './parsers';
+
+// 1 MiB
+export const DEFAULT_BODY_LIMIT = 1024 * 1024;
+
+/**
+ * Buffers the raw request stream provided by the engine and hands it to the
+ * first parser whose media types match the request `content-type`.
+ */
+export class BodyParser {
+  private readonly parsers: IBodyParser[];
+
+  constructor(parsers: IBodyParser[] = BodyParser.defaultParsers()) {
+    this.parsers = parsers;
+  }
+
+  public static defaultParsers(): IBodyParser[] {
+    return [
+      new JsonParser(),
+      new UrlEncodedParser(),
+      new MultipartParser(),
+      new TextParser(),
+      new RawParser(),
+    ];
+  }
+
+  public async parse(request: IRequest, limit: number = DEFAULT_BODY_LIMIT): Promise<unknown> {
+    if (!request.stream) {
+      return request.body;
+    }
+
+    // Reject early when the declared length is already too large
+    const declaredLength = Number(request.headers['content-length']);
+    if (declaredLength > limit) {
+      request.stream.resume();
+      throw new PayloadTooLargeError(`Request body exceeds the ${limit} byte limit`);
+    }
+
+    const raw = await this.read(request.stream, limit);
+    if (raw.length === 0) {
+      return undefined;
+    }
+
+    const contentType = parseContentType(request.headers['content-type']) ?? {
+      type: 'application/octet-stream',
+      parameters: {},
+    };
+
+    const parser = this.parsers.find(p =>
+      p.types.some(pattern => matchesContentType(contentType.type, pattern))
+    );
+
+    if (!parser) {
+      throw new UnsupportedMediaTypeError(`Unsupported content type: ${contentType.type}`);
+    }
+
+    return await parser.parse(raw, contentType);
+  }
+
+  private read(stream: Readable, limit: number): Promise<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let received = 0;
+
+      const cleanup = () => {
+        stream.off('data', onData);
+        stream.off('end', onEnd);
+        stream.off('error', onError);
+      };
+
+      const onData = (chunk: Buffer) => {
+        received += chunk.length;
+
+        if (received > limit) {
+          cleanup();
+          // Discard the rest of the body so the connection can still answer
+          stream.resume();
+          reject(new PayloadTooLargeError(`Request body exceeds the ${limit} byte limit`));
+          return;
+        }
+
+        chunks.push(chunk);
+      };
+
+      const onEnd = () => {
+        cleanup();
+        resolve(Buffer.concat(chunks));
+      };
+
+      const onError = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+
+      stream.on('data', onData);
+      stream.on('end', onEnd);
+      stream.on('error', onError);
+    });
+  }
+}
@@ -0,0 +1,54 @@
+import type { IContentType } from '../interfaces/IBodyParser';
+import { UnsupportedMediaTypeError } from '../errors';
+
+export function parseContentType(header: string | undefined): IContentType | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const [type, ...rest] = header.split(';');
+  const parameters: Record<string, string> = {};
+
+  for (const part of rest) {
+    const index = part.indexOf('=');
+    if (index === -1) {
+      continue;
+    }
+
+    const key = part.slice(0, index).trim().toLowerCase();
+    let value = part.slice(index + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1);
+    }
+    parameters[key] = value;
+  }
+
+  return { type: type.trim().toLowerCase(), parameters };
+}
+
+// Matches a media type against `type/subtype`, `type/*`, `*/*` or `+suffix` patterns
+export function matchesContentType(type: string, pattern: string): boolean {
+  if (pattern === '*/*' || pattern === type) {
+    return true;
+  }
+
+  if (pattern.startsWith('+')) {
+    return type.endsWith(pattern);
+  }
+
+  if (pattern.endsWith('/*')) {
+    return type.startsWith(pattern.slice(0, -1));
+  }
+
+  return false;
+}
+
+export function decodeText(raw: Buffer, contentType: IContentType): string {
+  const charset = contentType.parameters['charset'] ?? 'utf-8';
+
+  try {
+    return new TextDecoder(charset).decode(raw);
+  } catch {
+    throw new UnsupportedMediaTypeError(`Unsupported charset: ${charset}`);
+  }
+}
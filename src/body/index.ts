@@ -0,0 +1,3 @@
+export * from './BodyParser';
+export * from './contentType';
+export * from './parsers';
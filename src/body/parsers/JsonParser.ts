@@ -0,0 +1,18 @@
+import type { IBodyParser, IContentType } from '../../interfaces/IBodyParser';
+import { BadRequestError, HttpError } from '../../errors';
+import { decodeText } from '../contentType';
+
+export class JsonParser implements IBodyParser {
+  public readonly types = ['application/json', '+json'];
+
+  public parse(raw: Buffer, contentType: IContentType): unknown {
+    try {
+      return JSON.parse(decodeText(raw, contentType));
+    } catch (error: unknown) {
+      if (error instanceof HttpError) {
+        throw error;
+      }
+      throw new BadRequestError('Malformed JSON body');
+    }
+  }
+}
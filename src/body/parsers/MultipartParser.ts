@@ -0,0 +1,97 @@
+import type {
+  IBodyParser,
+  IContentType,
+  IMultipartBody,
+  IUploadedFile,
+} from '../../interfaces/IBodyParser';
+import { BadRequestError } from '../../errors';
+import { parseContentType } from '../contentType';
+
+const CRLF = '\r\n';
+
+export class MultipartParser implements IBodyParser {
+  public readonly types = ['multipart/form-data'];
+
+  public parse(raw: Buffer, contentType: IContentType): IMultipartBody {
+    const boundary = contentType.parameters['boundary'];
+    if (!boundary) {
+      throw new BadRequestError('Missing multipart boundary');
+    }
+
+    const delimiter = Buffer.from(`--${boundary}`);
+    const partDelimiter = Buffer.from(`${CRLF}--${boundary}`);
+    // Null-prototype fields so names like `toString` or `__proto__` are plain fields
+    const body: IMultipartBody = { fields: Object.create(null), files: [] };
+
+    let position = raw.indexOf(delimiter);
+    if (position === -1) {
+      throw new BadRequestError('Malformed multipart body');
+    }
+    position += delimiter.length;
+
+    while (true) {
+      // "--" after a delimiter marks the end of the body
+      const marker = raw.toString('latin1', position, position + 2);
+      if (marker === '--') {
+        return body;
+      }
+      if (marker !== CRLF) {
+        throw new BadRequestError('Malformed multipart body');
+      }
+      position += 2;
+
+      const headerEnd = raw.indexOf(CRLF + CRLF, position);
+      const partEnd = raw.indexOf(partDelimiter, position);
+      if (headerEnd === -1 || partEnd === -1 || headerEnd > partEnd) {
+        throw new BadRequestError('Malformed multipart body');
+      }
+
+      const headers = this.parseHeaders(raw.toString('utf8', position, headerEnd));
+      this.addPart(body, headers, raw.subarray(headerEnd + 4, partEnd));
+
+      position = partEnd + partDelimiter.length;
+    }
+  }
+
+  private parseHeaders(block: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    for (const line of block.split(CRLF)) {
+      const index = line.indexOf(':');
+      if (index > 0) {
+        headers[line.slice(0, index).trim().toLowerCase()] = line.slice(index + 1).trim();
+      }
+    }
+
+    return headers;
+  }
+
+  private addPart(body: IMultipartBody, headers: Record<string, string>, data: Buffer): void {
+    const disposition = parseContentType(headers['content-disposition']);
+    const name = disposition?.parameters['name'];
+    if (disposition?.type !== 'form-data' || name === undefined) {
+      throw new BadRequestError('Multipart part is missing a form-data name');
+    }
+
+    const filename = disposition.parameters['filename'];
+    if (filename !== undefined) {
+      const file: IUploadedFile = {
+        fieldName: name,
+        filename,
+        contentType: headers['content-type'] ?? 'application/octet-stream',
+        size: data.length,
+        data: Buffer.from(data),
+      };
+      body.files.push(file);
+      return;
+    }
+
+    const value = data.toString('utf8');
+    const existing = body.fields[name];
+    if (existing === undefined) {
+      body.fields[name] = value;
+    } else {
+      body.fields[name] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+    }
+  }
+}
@@ -0,0 +1,10 @@
+import type { IBodyParser } from '../../interfaces/IBodyParser';
+
+// Fallback parser that hands the body over as a Buffer
+export class RawParser implements IBodyParser {
+  public readonly types = ['*/*'];
+
+  public parse(raw: Buffer): Buffer {
+    return raw;
+  }
+}
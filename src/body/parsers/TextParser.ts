@@ -0,0 +1,10 @@
+import type { IBodyParser, IContentType } from '../../interfaces/IBodyParser';
+import { decodeText } from '../contentType';
+
+export class TextParser implements IBodyParser {
+  public readonly types = ['text/*'];
+
+  public parse(raw: Buffer, contentType: IContentType): string {
+    return decodeText(raw, contentType);
+  }
+}
@@ -0,0 +1,23 @@
+import type { IBodyParser, IContentType } from '../../interfaces/IBodyParser';
+import { decodeText } from '../contentType';
+
+export class UrlEncodedParser implements IBodyParser {
+  public readonly types = ['application/x-www-form-urlencoded'];
+
+  public parse(raw: Buffer, contentType: IContentType): Record<string, string | string[]> {
+    // Null-prototype so keys like `toString` or `__proto__` are plain fields
+    const fields: Record<string, string | string[]> = Object.create(null);
+
+    new URLSearchParams(decodeText(raw, contentType)).forEach((value, key) => {
+      const existing = fields[key];
+      if (existing === undefined) {
+        fields[key] = value;
+      } else {
+        // Repeated keys collect into an array
+        fields[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+      }
+    });
+
+    return fields;
+  }
+}
@@ -0,0 +1,5 @@
+export * from './JsonParser';
+export * from './MultipartParser';
+export * from './RawParser';
+export * from './TextParser';
+export * from './UrlEncodedParser';
@@ -0,0 +1,124 @@
+import { pipeline, Transform } from 'stream';
+import { promisify } from 'util';
+import * as zlib from 'zlib';
+import { getRequestContext } from '../context';
+import { appendVary, getHeader } from '../headers';
+import type { CompressionEncoding, ICompressionOptions } from '../interfaces/ICompression';
+import type { IMiddleware } from '../interfaces/IMiddleware';
+import type { IRequest } from '../interfaces/IRequest';
+import type { IResponse } from '../interfaces/IResponse';
+import { isStreamBody, toReadable } from '../stream';
+import { negotiateEncoding } from './negotiate';
+
+const DEFAULT_THRESHOLD = 1024;
+const DEFAULT_ENCODINGS: CompressionEncoding[] = ['br', 'gzip', 'deflate'];
+
+// Text based formats; images, video, archives and fonts are usually compressed already
+const COMPRESSIBLE =
+  /^(text\/(?!event-stream)|application\/(json|javascript|xml|x-www-form-urlencoded|graphql|wasm)|image\/svg\+xml|[^;]+\+(json|xml))/i;
+
+const compressBuffer = {
+  br: promisify(zlib.brotliCompress),
+  gzip: promisify(zlib.gzip),
+  deflate: promisify(zlib.deflate),
+};
+
+/**
+ * Compresses response bodies according to the request's Accept-Encoding.
+ * Register it globally with `server.use`; set `compress: false` on a route to
+ * opt out. Stream bodies are compressed on the fly, except server-sent events.
+ */
+export function compression(options: ICompressionOptions = {}): IMiddleware {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const encodings = options.encodings ?? DEFAULT_ENCODINGS;
+  const filter = options.filter ?? ((contentType: string) => COMPRESSIBLE.test(contentType));
+
+  return {
+    async after(request: IRequest, response: IResponse): Promise<void> {
+      const contentType = getHeader(response.headers, 'content-type');
+      if (
+        getRequestContext()?.route?.compress === false ||
+        response.body === undefined ||
+        response.status === 204 ||
+        response.status === 206 ||
+        response.status === 304 ||
+        !contentType ||
+        !filter(contentType) ||
+        getHeader(response.headers, 'content-encoding') ||
+        /\bno-transform\b/i.test(getHeader(response.headers, 'cache-control') ?? '')
+      ) {
+        return;
+      }
+
+      // The representation depends on Accept-Encoding even when we end up not compressing
+      appendVary(response, 'Accept-Encoding');
+
+      const encoding = negotiateEncoding(request.headers['accept-encoding'], encodings);
+      if (!encoding) {
+        return;
+      }
+
+      if (isStreamBody(response.body)) {
+        const length = Number(getHeader(response.headers, 'content-length'));
+        if (length < threshold) {
+          return;
+        }
+
+        response.removeHeader('content-length');
+        response.setHeader('content-encoding', encoding);
+        response.body = pipeline(
+          toReadable(response.body),
+          createCompressor(encoding, options),
+          () => {
+            // Errors destroy both streams; the engine reports them while piping
+          }
+        );
+        return;
+      }
+
+      const payload = toBuffer(response.body);
+      if (payload.length < threshold) {
+        return;
+      }
+
+      const compressed = await compressBuffer[encoding](
+        payload,
+        compressorOptions(encoding, options)
+      );
+      response.setHeader('content-encoding', encoding);
+      response.setHeader('content-length', String(compressed.length));
+      response.body = compressed;
+    },
+  };
+}
+
+function toBuffer(body: unknown): Buffer {
+  if (Buffer.isBuffer(body)) {
+    return body;
+  }
+  return Buffer.from(typeof body === 'string' ? body : JSON.stringify(body));
+}
+
+function createCompressor(encoding: CompressionEncoding, options: ICompressionOptions): Transform {
+  switch (encoding) {
+    case 'br':
+      return zlib.createBrotliCompress(compressorOptions(encoding, options));
+    case 'gzip':
+      return zlib.createGzip(compressorOptions(encoding, options));
+    case 'deflate':
+      return zlib.createDeflate(compressorOptions(encoding, options));
+  }
+}
+
+function compressorOptions(
+  encoding: CompressionEncoding,
+  options: ICompressionOptions
+): zlib.ZlibOptions & zlib.BrotliOptions {
+  if (options.level === undefined) {
+    return {};
+  }
+  if (encoding === 'br') {
+    return { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: options.level } };
+  }
+  return { level: options.level };
+}
@@ -0,0 +1,2 @@
+export * from './compression';
+export * from './negotiate';
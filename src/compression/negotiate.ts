@@ -0,0 +1,40 @@
+import type { CompressionEncoding } from '../interfaces/ICompression';
+
+/**
+ * Picks the encoding to use from an Accept-Encoding header. The client's
+ * q-values win; ties go to the first encoding in `supported`. Returns
+ * undefined when the body should be sent as it is.
+ */
+export function negotiateEncoding(
+  header: string | undefined,
+  supported: CompressionEncoding[]
+): CompressionEncoding | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const weights = new Map<string, number>();
+  for (const part of header.split(',')) {
+    const [token, ...params] = part.trim().toLowerCase().split(';');
+    if (!token) {
+      continue;
+    }
+
+    const q = params.map(p => p.trim()).find(p => p.startsWith('q='));
+    const weight = q ? Number(q.slice(2)) : 1;
+    weights.set(token.trim(), Number.isNaN(weight) ? 0 : weight);
+  }
+
+  let best: CompressionEncoding | undefined;
+  let bestWeight = 0;
+
+  for (const encoding of supported) {
+    const weight = weights.get(encoding) ?? weights.get('*') ?? 0;
+    if (weight > bestWeight) {
+      best = encoding;
+      bestWeight = weight;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,2 @@
+export * from './requestContext';
+export * from './requestId';
@@ -0,0 +1,13 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { IRequestContext } from '../interfaces/IRequestContext';
+
+const storage = new AsyncLocalStorage<IRequestContext>();
+
+// Context of the request being handled, or undefined outside request handling
+export function getRequestContext(): IRequestContext | undefined {
+  return storage.getStore();
+}
+
+export function runWithRequestContext<T>(context: IRequestContext, callback: () => T): T {
+  return storage.run(context, callback);
+}
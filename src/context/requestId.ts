@@ -0,0 +1,29 @@
+import { randomUUID } from 'crypto';
+import type { IRequest } from '../interfaces/IRequest';
+import type { IRequestIdOptions } from '../interfaces/IRequestContext';
+
+export const DEFAULT_REQUEST_ID_HEADER = 'x-request-id';
+
+// Keeps client supplied IDs short and safe to echo into headers and logs
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:/+=@-]{1,128}$/;
+
+// W3C trace context: version-traceid-parentid-flags
+const TRACEPARENT = /^[0-9a-f]{2}-([0-9a-f]{32})-[0-9a-f]{16}-[0-9a-f]{2}$/;
+
+export function resolveRequestId(request: IRequest, options: IRequestIdOptions = {}): string {
+  if (options.trustIncoming ?? true) {
+    const header = options.header?.toLowerCase() ?? DEFAULT_REQUEST_ID_HEADER;
+    const incoming = request.headers[header];
+    if (incoming && VALID_REQUEST_ID.test(incoming)) {
+      return incoming;
+    }
+
+    const trace = TRACEPARENT.exec(request.headers['traceparent'] ?? '');
+    // An all-zero trace ID is invalid per the spec
+    if (trace && !/^0+$/.test(trace[1])) {
+      return trace[1];
+    }
+  }
+
+  return options.generate?.(request) ?? randomUUID();
+}
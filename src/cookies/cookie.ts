@@ -0,0 +1,68 @@
+import type { ICookieOptions } from '../interfaces/ICookie';
+
+// Token characters allowed in a cookie name (RFC 6265 section 4.1.1)
+const COOKIE_NAME = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+/**
+ * Parses a Cookie request header. Values are percent-decoded; when a name is
+ * repeated the first value wins, as browsers send the most specific one first.
+ */
+export function parseCookies(header: string | undefined): Record<string, string> {
+  // No prototype, so names such as `constructor` are ordinary cookies
+  const cookies: Record<string, string> = Object.create(null);
+  if (!header) {
+    return cookies;
+  }
+
+  for (const pair of header.split(';')) {
+    const index = pair.indexOf('=');
+    if (index === -1) {
+      continue;
+    }
+
+    const name = pair.slice(0, index).trim();
+    let value = pair.slice(index + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+      value = value.slice(1, -1);
+    }
+
+    if (name && !Object.prototype.hasOwnProperty.call(cookies, name)) {
+      cookies[name] = decode(value);
+    }
+  }
+
+  return cookies;
+}
+
+// Builds a Set-Cookie header value; the value is percent-encoded
+export function serializeCookie(name: string, value: string, options: ICookieOptions = {}): string {
+  if (!COOKIE_NAME.test(name)) {
+    throw new TypeError(`Invalid cookie name: ${name}`);
+  }
+
+  const parts = [`${name}=${encodeURIComponent(value)}`];
+
+  if (options.domain) parts.push(`Domain=${options.domain}`);
+  parts.push(`Path=${options.path ?? '/'}`);
+  if (options.expires) parts.push(`Expires=${options.expires.toUTCString()}`);
+  if (options.maxAge !== undefined) parts.push(`Max-Age=${Math.floor(options.maxAge)}`);
+  if (options.httpOnly) parts.push('HttpOnly');
+  if (options.secure) parts.push('Secure');
+  if (options.sameSite) parts.push(`SameSite=${capitalize(options.sameSite)}`);
+  if (options.partitioned) parts.push('Partitioned');
+  if (options.priority) parts.push(`Priority=${capitalize(options.priority)}`);
+
+  return parts.join('; ');
+}
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
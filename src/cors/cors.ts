@@ -0,0 +1,98 @@
+import { getRequestContext } from '../context';
+import { appendVary } from '../headers';
+import type { CorsOrigin, ICorsOptions } from '../interfaces/ICors';
+import type { IMiddleware } from '../interfaces/IMiddleware';
+import type { IRequest } from '../interfaces/IRequest';
+import type { IResponse } from '../interfaces/IResponse';
+
+const DEFAULT_METHODS = ['GET', 'HEAD', 'PUT', 'PATCH', 'POST', 'DELETE'];
+
+/**
+ * CORS middleware. Register it globally with `server.use`; routes and route
+ * groups can refine or disable it through their `cors` setting. Preflight
+ * requests are answered directly with 204, whether or not an OPTIONS route
+ * exists.
+ */
+export function cors(defaults: ICorsOptions = {}): IMiddleware {
+  return {
+    async before(request: IRequest, response: IResponse, next: () => void): Promise<void> {
+      const origin = request.headers['origin'];
+      const routeOptions = getRequestContext()?.route?.cors;
+
+      if (!origin || routeOptions === false) {
+        return next();
+      }
+
+      const options = { ...defaults, ...routeOptions };
+      const preflight =
+        request.method === 'OPTIONS' && request.headers['access-control-request-method'];
+
+      // Caches must not reuse an answer meant for another origin
+      appendVary(response, 'Origin');
+
+      if (!(await isOriginAllowed(options.origin ?? true, origin, request))) {
+        // Without CORS headers the browser blocks the call, so a preflight ends here
+        if (preflight) {
+          response.setStatus(204).send();
+          return;
+        }
+        return next();
+      }
+
+      const allowAny = isWildcard(options.origin ?? true) && !options.credentials;
+      response.setHeader('access-control-allow-origin', allowAny ? '*' : origin);
+      if (options.credentials) {
+        response.setHeader('access-control-allow-credentials', 'true');
+      }
+
+      if (!preflight) {
+        if (options.exposedHeaders?.length) {
+          response.setHeader('access-control-expose-headers', options.exposedHeaders.join(', '));
+        }
+        return next();
+      }
+
+      response.setHeader(
+        'access-control-allow-methods',
+        (options.methods ?? DEFAULT_METHODS).join(', ')
+      );
+
+      const allowedHeaders =
+        options.allowedHeaders?.join(', ') ?? request.headers['access-control-request-headers'];
+      if (!options.allowedHeaders) {
+        appendVary(response, 'Access-Control-Request-Headers');
+      }
+      if (allowedHeaders) {
+        response.setHeader('access-control-allow-headers', allowedHeaders);
+      }
+
+      if (options.maxAge !== undefined) {
+        response.setHeader('access-control-max-age', String(options.maxAge));
+      }
+
+      response.setStatus(204).send();
+    },
+  };
+}
+
+function isWildcard(allowed: CorsOrigin): boolean {
+  return allowed === true || allowed === '*';
+}
+
+async function isOriginAllowed(
+  allowed: CorsOrigin,
+  origin: string,
+  request: IRequest
+): Promise<boolean> {
+  if (typeof allowed === 'function') {
+    return await allowed(origin, request);
+  }
+  if (typeof allowed === 'boolean') {
+    return allowed;
+  }
+
+  const patterns = Array.isArray(allowed) ? allowed : [allowed];
+  return patterns.some(pattern =>
+    typeof pattern === 'string' ? pattern === '*' || pattern === origin : pattern.test(origin)
+  );
+}
@@ -0,0 +1,70 @@
+import { createSecureContext, type SecureContext, type SecureVersion, type TlsOptions } from 'tls';
+import type { ITlsCredentials, ITlsOptions } from '../interfaces/ITls';
+
+const DEFAULT_MIN_VERSION: SecureVersion = 'TLSv1.2';
+
+/**
+ * Certificates of a TLS engine. Server names are resolved on every handshake,
+ * so after `update()` new connections get the new certificates while
+ * established ones carry on with the keys they negotiated.
+ */
+export class CertificateStore {
+  private credentials!: ITlsCredentials;
+  private minVersion!: SecureVersion;
+  private contexts = new Map<string, SecureContext>();
+
+  constructor(options: ITlsOptions) {
+    this.update(options);
+  }
+
+  public static isEnabled(options: ITlsOptions): boolean {
+    return Boolean(options.key && options.cert);
+  }
+
+  public update(options: ITlsOptions): void {
+    const { key, cert, passphrase, ca, sni = {} } = options;
+    if (!key || !cert) {
+      throw new Error('TLS requires both a key and a certificate');
+    }
+
+    const minVersion = options.minVersion ?? DEFAULT_MIN_VERSION;
+
+    // Build every context before swapping, so a broken certificate leaves the current ones in place
+    const contexts = new Map(
+      Object.entries(sni).map(([name, credentials]) => [
+        name.toLowerCase(),
+        createSecureContext({ ...credentials, minVersion }),
+      ])
+    );
+    createSecureContext({ key, cert, passphrase, ca, minVersion });
+
+    this.credentials = { key, cert, passphrase, ca };
+    this.minVersion = minVersion;
+    this.contexts = contexts;
+  }
+
+  // Default credentials, in the shape tls.Server#setSecureContext() expects
+  public get secureContextOptions(): TlsOptions {
+    return { ...this.credentials, minVersion: this.minVersion };
+  }
+
+  // Options for https.createServer() and http2.createSecureServer()
+  public get serverOptions(): TlsOptions {
+    return {
+      ...this.secureContextOptions,
+      // Without a match the callback gets no context and the default certificate is used
+      SNICallback: (servername, callback) => callback(null, this.lookup(servername)),
+    };
+  }
+
+  private lookup(servername: string): SecureContext | undefined {
+    const name = servername.toLowerCase();
+    const exact = this.contexts.get(name);
+    if (exact) {
+      return exact;
+    }
+
+    const dot = name.indexOf('.');
+    return dot === -1 ? undefined : this.contexts.get(`*${name.slice(dot)}`);
+  }
+}
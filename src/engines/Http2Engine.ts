@@ -1,22 +1,63 @@
+import type * as http from 'http';
 import * as http2 from 'http2';
+import { pipeline } from 'stream/promises';
+import type { TLSSocket } from 'tls';
 import { HttpMethod, IRequest } from '../interfaces/IRequest';
-import { IEngine } from '../interfaces/IEngine';
-import type { IResponse } from '../interfaces/IResponse';
-
-interface Http2Options {
-  key?: string | Buffer;
-  cert?: string | Buffer;
+import { IEngine, IEngineCloseOptions } from '../interfaces/IEngine';
+import type { ILogger } from '../interfaces/ILogger';
+import type { IQueryParser } from '../interfaces/IQuery';
+import type { IPushPromise, IResponse } from '../interfaces/IResponse';
+import type { ITlsOptions } from '../interfaces/ITls';
+import { createRequestHeaders, HttpHeaders } from '../headers';
+import { createDefaultLogger } from '../logger';
+import { QueryParser } from '../query';
+import { isStreamBody, toReadable } from '../stream';
+import { CertificateStore } from './CertificateStore';
+import { createHttp1Request, sendHttp1Response } from './http1';
+
+// Without `key` and `cert` the engine speaks cleartext HTTP/2 (h2c) only
+interface Http2Options extends ITlsOptions {
+  // Serve HTTP/1.1 clients on the same TLS port, negotiated through ALPN
   allowHTTP1?: boolean;
   maxConnections?: number;
   timeout?: number;
+  // SETTINGS sent to every client; Node's defaults apply to anything left out
+  settings?: Http2Settings;
+}
+
+interface Http2Settings {
+  // Streams a client may have open at once
+  maxConcurrentStreams?: number;
+  // Flow control window of each stream in bytes
+  initialWindowSize?: number;
+  // Largest request header block accepted, in bytes before compression
+  maxHeaderListSize?: number;
 }
 
+// Request headers a pushed request inherits, so it is authenticated and negotiated like the original
+const INHERITED_PUSH_HEADERS = [
+  'accept-encoding',
+  'accept-language',
+  'authorization',
+  'cookie',
+  'user-agent',
+];
+
 export class Http2Engine implements IEngine {
   public readonly protocol = 'HTTP/2';
-  public readonly isSecure = true;
+  public readonly isSecure: boolean;
 
   private server: http2.Http2SecureServer | http2.Http2Server;
+  private certificates?: CertificateStore;
   private requestHandler?: (request: IRequest) => Promise<IResponse>;
+  private logger: ILogger = createDefaultLogger();
+  private queryParser: IQueryParser = new QueryParser();
+
+  // Session tracking for graceful shutdown
+  private sessions = new Set<http2.ServerHttp2Session>();
+  // HTTP/1.1 fallback connections and their number of in-flight requests
+  private http1Sockets = new Map<TLSSocket, number>();
+  private draining = false;
 
   constructor(options: Http2Options = {}) {
     // Default options for secure HTTP2
@@ -27,51 +68,160 @@ export class Http2Engine implements IEngine {
       ...options,
     };
 
-    // Validate required SSL options for secure HTTP2
-    if (!defaultOptions.key || !defaultOptions.cert) {
-      this.server = http2.createServer();
+    // Browsers only speak HTTP/2 over TLS; without certificates this is h2c
+    if (CertificateStore.isEnabled(defaultOptions)) {
+      this.certificates = new CertificateStore(defaultOptions);
+      this.server = http2.createSecureServer({
+        allowHTTP1: defaultOptions.allowHTTP1,
+        settings: defaultOptions.settings,
+        ...this.certificates.serverOptions,
+      });
     } else {
-      this.server = http2.createSecureServer(defaultOptions);
+      this.server = http2.createServer({ settings: defaultOptions.settings });
     }
+    this.isSecure = this.certificates !== undefined;
 
     this.setupStreamHandler();
+    this.setupSessionTracking();
+    if (this.isSecure && defaultOptions.allowHTTP1) {
+      this.setupHttp1Fallback();
+    }
   }
 
-  private setupStreamHandler(): void {
-    this.server.on(
-      'stream',
-      async (stream: http2.ServerHttp2Stream, headers: http2.IncomingHttpHeaders) => {
-        try {
-          // Convert HTTP2 headers to framework IRequest
-          const request = await this.createRequestFromHeaders(headers, stream);
-
-          // Process request through framework handler
-          if (this.requestHandler) {
-            const response = await this.requestHandler(request);
-
-            // Send response back through HTTP2 stream
-            await this.sendResponse(stream, response);
-          } else {
-            // No handler configured, send 501
-            stream.respond({ ':status': 501 });
-            stream.end('Not Implemented');
-          }
-        } catch (error: unknown) {
-          console.error('HTTP2 Stream Error:', error);
+  private setupSessionTracking(): void {
+    this.server.on('session', (session: http2.ServerHttp2Session) => {
+      this.sessions.add(session);
+      session.once('close', () => this.sessions.delete(session));
+    });
+  }
 
-          // Type-safe error handling
-          const errorMessage = this.getErrorMessage(error);
+  // Clients that negotiated http/1.1 through ALPN arrive as plain HTTP/1 requests
+  private setupHttp1Fallback(): void {
+    this.server.on('secureConnection', (socket: TLSSocket) => {
+      if (socket.alpnProtocol === 'h2') {
+        return;
+      }
+      this.http1Sockets.set(socket, 0);
+      socket.once('close', () => this.http1Sockets.delete(socket));
+    });
+
+    // Listening for 'request' also emits HTTP/2 streams here; those are served by the stream handler
+    this.server.on('request', async (req: http.IncomingMessage, res: http.ServerResponse) => {
+      if (req.httpVersionMajor !== 1) {
+        return;
+      }
+
+      const socket = req.socket as TLSSocket;
+      this.http1Sockets.set(socket, (this.http1Sockets.get(socket) ?? 0) + 1);
+      res.once('close', () => {
+        const inFlight = (this.http1Sockets.get(socket) ?? 1) - 1;
+        this.http1Sockets.set(socket, inFlight);
+        // While draining, let sockets go as soon as their last response is out
+        if (this.draining && inFlight === 0) {
+          socket.end();
+        }
+      });
 
-          stream.respond({ ':status': 500 });
-          stream.end(errorMessage);
+      try {
+        const request = createHttp1Request(req, this.queryParser, true);
+
+        if (this.requestHandler) {
+          const response = await this.requestHandler(request);
+          if (this.draining) {
+            res.setHeader('Connection', 'close');
+          }
+          await sendHttp1Response(res, response);
+        } else {
+          res.writeHead(501, { 'Content-Type': 'text/plain' });
+          res.end('Not Implemented');
+        }
+      } catch (error: unknown) {
+        if (!this.isPrematureClose(error)) {
+          this.logger.error('HTTP/1 request error', { error });
         }
+
+        if (res.headersSent) {
+          res.destroy();
+          return;
+        }
+
+        res.writeHead(500, { 'Content-Type': 'text/plain' });
+        res.end(this.getErrorMessage(error));
       }
+    });
+  }
+
+  private setupStreamHandler(): void {
+    this.server.on(
+      'stream',
+      (stream: http2.ServerHttp2Stream, headers: http2.IncomingHttpHeaders) =>
+        this.handleStream(stream, headers).catch(error => this.onStreamFailure(error))
     );
 
     // Handle server errors
     this.server.on('error', (error: Error) => {
-      console.error('HTTP2 Server Error:', error);
+      this.logger.error('HTTP/2 server error', { error });
+    });
+  }
+
+  // Serves client streams as well as pushed ones, whose headers describe the promised request
+  private async handleStream(
+    stream: http2.ServerHttp2Stream,
+    headers: http2.IncomingHttpHeaders
+  ): Promise<void> {
+    // Without a listener, a client resetting the stream with an error code throws from the emitter
+    stream.on('error', error => {
+      this.logger.debug('HTTP/2 stream reset by the client', { error });
     });
+
+    try {
+      // Convert HTTP2 headers to framework IRequest
+      const request = await this.createRequestFromHeaders(headers, stream);
+
+      // Process request through framework handler
+      if (this.requestHandler) {
+        const response = await this.requestHandler(request);
+
+        // Send response back through HTTP2 stream
+        await this.sendResponse(stream, response, headers);
+      } else {
+        // No handler configured, send 501
+        stream.respond({ ':status': 501 });
+        stream.end('Not Implemented');
+      }
+    } catch (error: unknown) {
+      // The client reset the stream, e.g. cancelling a push for an asset it has cached
+      if (stream.destroyed || stream.closed) {
+        this.logger.debug('HTTP/2 stream closed before the response was sent', { error });
+        return;
+      }
+
+      // A client disconnecting from a long-lived response is not an error
+      if (!this.isPrematureClose(error)) {
+        this.logger.error('HTTP/2 stream error', { error });
+      }
+
+      // A streamed body failed midway; headers are gone, so reset the stream
+      if (stream.headersSent) {
+        stream.close(http2.constants.NGHTTP2_INTERNAL_ERROR);
+        return;
+      }
+
+      // Type-safe error handling
+      const errorMessage = this.getErrorMessage(error);
+
+      stream.respond({ ':status': 500 });
+      stream.end(errorMessage);
+    }
+  }
+
+  // Last resort for failures while answering a failed stream; they must not take the process down
+  private onStreamFailure(error: unknown): void {
+    this.logger.error('HTTP/2 stream error', { error });
+  }
+
+  private isPrematureClose(error: unknown): boolean {
+    return (error as NodeJS.ErrnoException)?.code === 'ERR_STREAM_PREMATURE_CLOSE';
   }
 
   private getErrorMessage(error: unknown): string {
@@ -98,7 +248,7 @@ export class Http2Engine implements IEngine {
     // Extract HTTP2 pseudo-headers
     const methodString = (headers[':method'] as string) || 'GET';
     const path = (headers[':path'] as string) || '/';
-    const scheme = (headers[':scheme'] as string) || 'https';
+    const scheme = (headers[':scheme'] as string) || (this.isSecure ? 'https' : 'http');
     const authority = (headers[':authority'] as string) || 'localhost';
 
     // Convert string to HttpMethod
@@ -107,58 +257,39 @@ export class Http2Engine implements IEngine {
     // Parse URL components
     const url = new URL(`${scheme}://${authority}${path}`);
 
-    // Extract query parameters
-    const query: Record<string, string> = {};
-    url.searchParams.forEach((value, key) => {
-      query[key] = value;
-    });
+    const query = this.queryParser.parse(url.search);
 
-    // Extract route parameters (simplified - you'd want more sophisticated path parsing)
+    // Route parameters are filled in by the server once the route is matched
     const params: Record<string, string> = {};
 
-    // Convert HTTP2 headers to standard format (HTTP2 uses lowercase)
-    const requestHeaders: Record<string, string> = {};
+    // HTTP/2 header names are already lower-case; pseudo-headers were read above
+    const headerList = new HttpHeaders();
     Object.entries(headers).forEach(([key, value]) => {
-      if (!key.startsWith(':') && typeof value === 'string') {
-        requestHeaders[key] = value;
+      if (key.startsWith(':') || value === undefined) {
+        return;
       }
+      (Array.isArray(value) ? value : [value]).forEach(item => headerList.append(key, item));
     });
-
-    // Parse body (HTTP2 streams are readable)
-    let body: unknown = undefined;
-    const chunks: Buffer[] = [];
-
-    return new Promise<IRequest>(resolve => {
-      stream.on('data', (chunk: Buffer) => {
-        chunks.push(chunk);
-      });
-
-      stream.on('end', () => {
-        if (chunks.length > 0) {
-          const rawBody = Buffer.concat(chunks).toString();
-
-          // Try to parse as JSON, fall back to raw string
-          try {
-            body = JSON.parse(rawBody);
-          } catch {
-            body = rawBody;
-          }
-        }
-
-        resolve({
-          method,
-          url,
-          path: url.pathname,
-          headers: requestHeaders,
-          query,
-          params,
-          body,
-          protocol: this.protocol,
-          remoteAddress: stream.session?.socket?.remoteAddress,
-          userAgent: requestHeaders['user-agent'],
-        });
-      });
-    });
+    const requestHeaders = createRequestHeaders(headerList);
+
+    // The body is left on the stream; the server parses it once the route is known
+    return {
+      id: '',
+      method,
+      url,
+      path: url.pathname,
+      headers: requestHeaders,
+      query,
+      params,
+      body: undefined,
+      stream,
+      cookies: {},
+      signedCookies: {},
+      state: {},
+      protocol: this.protocol,
+      remoteAddress: stream.session?.socket?.remoteAddress,
+      userAgent: requestHeaders['user-agent'],
+    };
   }
 
   private normalizeHttpMethod(method: string): HttpMethod {
@@ -184,42 +315,97 @@ export class Http2Engine implements IEngine {
     return upperMethod as HttpMethod;
   }
 
-  private async sendResponse(stream: http2.ServerHttp2Stream, response: IResponse): Promise<void> {
+  private async sendResponse(
+    stream: http2.ServerHttp2Stream,
+    response: IResponse,
+    requestHeaders: http2.IncomingHttpHeaders
+  ): Promise<void> {
     // Convert framework IResponse to HTTP2 headers
-    const http2Headers: http2.OutgoingHttpHeaders = {
-      ':status': response.status || 200,
-      ...response.headers,
-    };
+    const http2Headers: http2.OutgoingHttpHeaders = { ':status': response.status || 200 };
+    Object.entries(new HttpHeaders(response.rawHeaders).grouped()).forEach(([name, values]) => {
+      http2Headers[name] = values.length === 1 ? values[0] : values;
+    });
 
-    // Respond with headers
-    stream.respond(http2Headers);
+    // Promises must reach the client before the response that references the pushed resources.
+    // Pushed streams cannot push again, and clients may disable push altogether.
+    if (stream.pushAllowed) {
+      response.pushes.forEach(push => this.push(stream, requestHeaders, push));
+    }
+
+    // Trailers are read once the body is out, so stream bodies can still add announced ones
+    const respondOptions: http2.ServerStreamResponseOptions = {};
+    if (Object.keys(response.trailers).length > 0 || response.headers['trailer']) {
+      respondOptions.waitForTrailers = true;
+      stream.once('wantTrailers', () => stream.sendTrailers(response.trailers));
+    }
 
-    // Send body if present
+    // Stream bodies are piped through as data frames, respecting flow control
+    if (isStreamBody(response.body)) {
+      stream.respond(http2Headers, respondOptions);
+      await pipeline(toReadable(response.body), stream);
+      return;
+    }
+
+    // Serialize body if present
+    let payload: string | Buffer | undefined;
     if (response.body !== undefined) {
-      if (typeof response.body === 'string') {
-        stream.write(response.body);
-      } else if (Buffer.isBuffer(response.body)) {
-        stream.write(response.body);
+      if (typeof response.body === 'string' || Buffer.isBuffer(response.body)) {
+        payload = response.body;
       } else {
         // Convert objects to JSON
-        stream.write(JSON.stringify(response.body));
+        payload = JSON.stringify(response.body);
 
         // Set content-type if not already set
         if (!response.headers['content-type']) {
-          stream.respond({ ':status': response.status || 200, 'content-type': 'application/json' });
+          http2Headers['content-type'] = 'application/json';
         }
       }
     }
 
-    // End the stream
-    stream.end();
+    // Respond with headers
+    stream.respond(http2Headers, respondOptions);
+
+    // End the stream, sending the body if present
+    stream.end(payload);
+  }
+
+  private push(
+    stream: http2.ServerHttp2Stream,
+    requestHeaders: http2.IncomingHttpHeaders,
+    { path, headers }: IPushPromise
+  ): void {
+    const pushHeaders: http2.OutgoingHttpHeaders = {
+      ':method': 'GET',
+      ':path': path,
+      ':scheme': requestHeaders[':scheme'],
+      ':authority': requestHeaders[':authority'],
+    };
+    INHERITED_PUSH_HEADERS.forEach(name => {
+      if (requestHeaders[name] !== undefined) {
+        pushHeaders[name] = requestHeaders[name];
+      }
+    });
+    Object.entries(headers).forEach(([name, value]) => {
+      pushHeaders[name.toLowerCase()] = value;
+    });
+
+    stream.pushStream(pushHeaders, (error, pushStream, promisedHeaders) => {
+      if (error) {
+        // Refused pushes, e.g. over the stream limit, only cost the client a round trip
+        this.logger.debug('HTTP/2 push failed', { path, error });
+        return;
+      }
+      this.handleStream(pushStream, promisedHeaders as http2.IncomingHttpHeaders).catch(error =>
+        this.onStreamFailure(error)
+      );
+    });
   }
 
   async listen(port: number, callback?: () => void): Promise<void> {
     return new Promise<void>((resolve, reject) => {
       try {
         this.server.listen(port, () => {
-          console.log(`HTTP/2 server listening on port ${port}`);
+          this.logger.debug('HTTP/2 server listening', { port });
           callback?.();
           resolve();
         });
@@ -229,24 +415,66 @@ export class Http2Engine implements IEngine {
     });
   }
 
-  async close(): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      try {
-        this.server.close((error?: Error) => {
-          if (error) {
-            reject(error);
-          } else {
-            console.log('HTTP/2 server closed');
-            resolve();
-          }
-        });
-      } catch (error) {
-        reject(error);
-      }
-    });
+  async close(options: IEngineCloseOptions = {}): Promise<void> {
+    this.draining = true;
+
+    // Past the deadline, drop whatever is still open
+    const deadline =
+      options.timeout !== undefined
+        ? setTimeout(() => {
+            this.sessions.forEach(session => session.destroy());
+            this.http1Sockets.forEach((_inFlight, socket) => socket.destroy());
+          }, options.timeout)
+        : undefined;
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        try {
+          // Stop accepting connections; resolves once every session is gone
+          this.server.close((error?: Error) => {
+            if (error) {
+              reject(error);
+            } else {
+              this.logger.debug('HTTP/2 server closed');
+              resolve();
+            }
+          });
+
+          // Send GOAWAY: open streams may finish, new ones are refused
+          this.sessions.forEach(session => session.close());
+          // Idle HTTP/1.1 connections can go right away
+          this.http1Sockets.forEach((inFlight, socket) => inFlight === 0 && socket.end());
+        } catch (error) {
+          reject(error);
+        }
+      });
+    } finally {
+      clearTimeout(deadline);
+      this.draining = false;
+    }
+  }
+
+  // Swaps certificates without dropping open sessions; new handshakes use the new ones
+  updateCertificates(options: ITlsOptions): void {
+    if (!this.certificates) {
+      throw new Error('Cannot update certificates of an engine started without TLS');
+    }
+
+    this.certificates.update(options);
+    (this.server as http2.Http2SecureServer).setSecureContext(
+      this.certificates.secureContextOptions
+    );
   }
 
   setRequestHandler(handler: (request: IRequest) => Promise<IResponse>): void {
     this.requestHandler = handler;
   }
+
+  setLogger(logger: ILogger): void {
+    this.logger = logger;
+  }
+
+  setQueryParser(parser: IQueryParser): void {
+    this.queryParser = parser;
+  }
 }
@@ -1,8 +1,31 @@
+import { createHash } from 'crypto';
 import * as http from 'http';
-import * as url from 'url';
-import { IEngine, IRequest, IResponse, HttpMethod } from '../interfaces';
-
-interface HttpOptions {
+import * as https from 'https';
+import type { Socket } from 'net';
+import type { Duplex } from 'stream';
+import { HttpHeaders } from '../headers';
+import {
+  IEngine,
+  IEngineCloseOptions,
+  ILogger,
+  IQueryParser,
+  IRequest,
+  IResponse,
+  ITlsOptions,
+} from '../interfaces';
+import type { IWebSocketUpgrade } from '../interfaces/IWebSocket';
+import { createDefaultLogger } from '../logger';
+import { QueryParser } from '../query';
+import { isStreamBody } from '../stream';
+import { WebSocketConnection } from '../websocket';
+import { CertificateStore } from './CertificateStore';
+import { createHttp1Request, sendHttp1Response } from './http1';
+
+// Fixed GUID from RFC 6455 used to derive Sec-WebSocket-Accept
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+// Setting `key` and `cert` serves HTTPS
+interface HttpOptions extends ITlsOptions {
   maxConnections?: number;
   timeout?: number;
   keepAlive?: boolean;
@@ -11,10 +34,19 @@ interface HttpOptions {
 
 export class HttpEngine implements IEngine {
   public readonly protocol = 'HTTP/1.1';
-  public readonly isSecure = false;
+  public readonly isSecure: boolean;
 
-  private server: http.Server;
+  private server: http.Server | https.Server;
+  private certificates?: CertificateStore;
   private requestHandler?: (request: IRequest) => Promise<IResponse>;
+  private upgradeHandler?: (request: IRequest) => Promise<IWebSocketUpgrade>;
+  private logger: ILogger = createDefaultLogger();
+  private queryParser: IQueryParser = new QueryParser();
+
+  // Connection tracking for graceful shutdown
+  private sockets = new Set<Duplex>();
+  private webSockets = new Set<WebSocketConnection>();
+  private draining = false;
 
   constructor(options: HttpOptions = {}) {
     // Default options for HTTP/1.1
@@ -26,29 +58,66 @@ export class HttpEngine implements IEngine {
       ...options,
     };
 
-    this.server = http.createServer(defaultOptions);
+    if (CertificateStore.isEnabled(defaultOptions)) {
+      this.certificates = new CertificateStore(defaultOptions);
+      this.server = https.createServer({ ...defaultOptions, ...this.certificates.serverOptions });
+    } else {
+      this.server = http.createServer(defaultOptions);
+    }
+    this.isSecure = this.certificates !== undefined;
+
     this.setupRequestHandler();
+    this.setupUpgradeHandler();
+    this.setupConnectionTracking();
+  }
+
+  private setupConnectionTracking(): void {
+    this.server.on('connection', (socket: Socket) => {
+      this.sockets.add(socket);
+      socket.once('close', () => this.sockets.delete(socket));
+    });
   }
 
   private setupRequestHandler(): void {
     this.server.on('request', async (req: http.IncomingMessage, res: http.ServerResponse) => {
+      // While draining, let sockets go as soon as their last response is out
+      res.once('finish', () => {
+        if (this.draining) {
+          this.server.closeIdleConnections();
+        }
+      });
+
       try {
         // Convert HTTP/1 request to framework IRequest
-        const request = await this.createRequestFromHttp(req);
+        const request = createHttp1Request(req, this.queryParser, this.isSecure);
 
         // Process request through framework handler
         if (this.requestHandler) {
           const response = await this.requestHandler(request);
 
+          // Ask keep-alive clients to reconnect elsewhere while shutting down
+          if (this.draining) {
+            res.setHeader('Connection', 'close');
+          }
+
           // Send response back through HTTP/1
-          await this.sendResponse(res, response);
+          await sendHttp1Response(res, response);
         } else {
           // No handler configured, send 501
           res.writeHead(501, { 'Content-Type': 'text/plain' });
           res.end('Not Implemented');
         }
       } catch (error: unknown) {
-        console.error('HTTP/1 Request Error:', error);
+        // A client disconnecting from a long-lived response is not an error
+        if (!this.isPrematureClose(error)) {
+          this.logger.error('HTTP/1 request error', { error });
+        }
+
+        // A streamed body failed midway; the status line is gone, so drop the connection
+        if (res.headersSent) {
+          res.destroy();
+          return;
+        }
 
         // Type-safe error handling
         const errorMessage = this.getErrorMessage(error);
@@ -60,131 +129,106 @@ export class HttpEngine implements IEngine {
 
     // Handle server errors
     this.server.on('error', (error: Error) => {
-      console.error('HTTP/1 Server Error:', error);
+      this.logger.error('HTTP/1 server error', { error });
     });
   }
 
-  private async createRequestFromHttp(req: http.IncomingMessage): Promise<IRequest> {
-    // Parse URL to extract components
-    const parsedUrl = url.parse(req.url || '/', true);
-
-    // Convert string to HttpMethod
-    const method: HttpMethod = this.normalizeHttpMethod(req.method || 'GET');
+  private setupUpgradeHandler(): void {
+    this.server.on('upgrade', async (req: http.IncomingMessage, socket: Duplex, head: Buffer) => {
+      socket.on('error', () => socket.destroy());
 
-    // Create a proper URL object from the parsed URL
-    const requestUrl = new URL(
-      `${req.headers['x-forwarded-proto'] || 'http'}://${req.headers.host || 'localhost'}${req.url || '/'}`
-    );
+      const key = req.headers['sec-websocket-key'];
+      const isWebSocket = req.headers.upgrade?.toLowerCase() === 'websocket';
 
-    // Extract query parameters
-    const query: Record<string, string> = {};
-    Object.entries(parsedUrl.query).forEach(([key, value]) => {
-      query[key] = Array.isArray(value) ? value[0] : (value as string);
-    });
-
-    // Extract route parameters (simplified - you'd want more sophisticated path parsing)
-    const params: Record<string, string> = {};
-
-    // Convert HTTP/1 headers to standard format
-    const requestHeaders: Record<string, string> = {};
-    Object.entries(req.headers).forEach(([key, value]) => {
-      if (typeof value === 'string') {
-        requestHeaders[key] = value;
-      } else if (Array.isArray(value)) {
-        requestHeaders[key] = value[0];
+      if (!this.upgradeHandler || !isWebSocket) {
+        this.writeRawResponse(socket, 501, [], 'Not Implemented');
+        return;
       }
-    });
 
-    // Parse body (HTTP/1 requests are readable streams)
-    let body: unknown = undefined;
-    const chunks: Buffer[] = [];
+      if (req.method !== 'GET' || typeof key !== 'string' || !key) {
+        this.writeRawResponse(socket, 400, [], 'Bad WebSocket handshake');
+        return;
+      }
 
-    return new Promise<IRequest>(resolve => {
-      req.on('data', (chunk: Buffer) => {
-        chunks.push(chunk);
-      });
+      if (req.headers['sec-websocket-version'] !== '13') {
+        this.writeRawResponse(socket, 426, [['Sec-WebSocket-Version', '13']], 'Upgrade Required');
+        return;
+      }
 
-      req.on('end', () => {
-        if (chunks.length > 0) {
-          const rawBody = Buffer.concat(chunks).toString();
+      try {
+        const request = createHttp1Request(req, this.queryParser, this.isSecure);
+        const { handlers, response } = await this.upgradeHandler(request);
 
-          // Try to parse as JSON, fall back to raw string
-          try {
-            body = JSON.parse(rawBody);
-          } catch {
-            body = rawBody;
-          }
+        if (!handlers) {
+          this.writeRawResponse(socket, response.status, response.rawHeaders, response.body);
+          return;
         }
 
-        resolve({
-          method,
-          url: requestUrl, // Now using proper URL object
-          path: parsedUrl.pathname || '/',
-          headers: requestHeaders,
-          query,
-          params,
-          body,
-          protocol: this.protocol,
-          remoteAddress: req.socket.remoteAddress,
-          userAgent: requestHeaders['user-agent'],
-        });
-      });
+        const accept = createHash('sha1')
+          .update(key + WEBSOCKET_GUID)
+          .digest('base64');
+
+        const headers = [
+          'HTTP/1.1 101 Switching Protocols',
+          'Upgrade: websocket',
+          'Connection: Upgrade',
+          `Sec-WebSocket-Accept: ${accept}`,
+          ...response.rawHeaders.map(([name, value]) => `${name}: ${value}`),
+        ];
+        socket.write(headers.join('\r\n') + '\r\n\r\n');
+
+        const connection: WebSocketConnection = new WebSocketConnection(
+          socket,
+          request,
+          {
+            ...handlers,
+            onClose: (webSocket, code, reason) => {
+              this.webSockets.delete(connection);
+              return handlers.onClose?.(webSocket, code, reason);
+            },
+          },
+          head,
+          this.logger
+        );
+        this.webSockets.add(connection);
+      } catch (error: unknown) {
+        this.logger.error('HTTP/1 upgrade error', { error });
+        this.writeRawResponse(socket, 500, [], 'Internal Server Error');
+      }
     });
   }
 
-  private async sendResponse(res: http.ServerResponse, response: IResponse): Promise<void> {
-    // Set status code
-    res.statusCode = response.status || 200;
-
-    // Set headers
-    Object.entries(response.headers || {}).forEach(([name, value]) => {
-      res.setHeader(name, value);
-    });
-
-    // Send body if present
-    if (response.body !== undefined) {
-      if (typeof response.body === 'string') {
-        res.write(response.body);
-      } else if (Buffer.isBuffer(response.body)) {
-        res.write(response.body);
-      } else {
-        // Convert objects to JSON
-        const jsonString = JSON.stringify(response.body);
-
-        // Set content-type if not already set
-        if (!response.headers?.['content-type']) {
-          res.setHeader('Content-Type', 'application/json');
-        }
-
-        res.write(jsonString);
+  // Answers an upgrade request that was not accepted, then closes the socket
+  private writeRawResponse(
+    socket: Duplex,
+    status: number,
+    headers: [string, string][],
+    body: unknown
+  ): void {
+    let payload = Buffer.alloc(0);
+    const responseHeaders = new HttpHeaders(headers);
+
+    if (typeof body === 'string' || Buffer.isBuffer(body)) {
+      payload = Buffer.from(body);
+    } else if (body !== undefined && !isStreamBody(body)) {
+      payload = Buffer.from(JSON.stringify(body));
+      if (!responseHeaders.has('content-type')) {
+        responseHeaders.append('Content-Type', 'application/json');
       }
     }
 
-    // End the response
-    res.end();
-  }
-
-  private normalizeHttpMethod(method: string): HttpMethod {
-    const upperMethod = method.toUpperCase();
-
-    // Validate that it's a valid HttpMethod
-    const validMethods: HttpMethod[] = [
-      'GET',
-      'POST',
-      'PUT',
-      'PATCH',
-      'DELETE',
-      'HEAD',
-      'OPTIONS',
-      'TRACE',
-      'CONNECT',
+    const lines = [
+      `HTTP/1.1 ${status} ${http.STATUS_CODES[status] ?? ''}`,
+      ...responseHeaders.raw().map(([name, value]) => `${name}: ${value}`),
+      `Content-Length: ${payload.length}`,
+      'Connection: close',
     ];
 
-    if (!validMethods.includes(upperMethod as HttpMethod)) {
-      throw new Error(`Unsupported HTTP method: ${method}`);
-    }
+    socket.end(Buffer.concat([Buffer.from(lines.join('\r\n') + '\r\n\r\n'), payload]));
+  }
 
-    return upperMethod as HttpMethod;
+  private isPrematureClose(error: unknown): boolean {
+    return (error as NodeJS.ErrnoException)?.code === 'ERR_STREAM_PREMATURE_CLOSE';
   }
 
   private getErrorMessage(error: unknown): string {
@@ -208,7 +252,7 @@ export class HttpEngine implements IEngine {
     return new Promise<void>((resolve, reject) => {
       try {
         this.server.listen(port, () => {
-          console.log(`HTTP/1.1 server listening on port ${port}`);
+          this.logger.debug('HTTP/1.1 server listening', { port });
           callback?.();
           resolve();
         });
@@ -218,24 +262,67 @@ export class HttpEngine implements IEngine {
     });
   }
 
-  async close(): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      try {
-        this.server.close((error?: Error) => {
-          if (error) {
-            reject(error);
-          } else {
-            console.log('HTTP/1.1 server closed');
-            resolve();
-          }
-        });
-      } catch (error) {
-        reject(error);
-      }
-    });
+  async close(options: IEngineCloseOptions = {}): Promise<void> {
+    this.draining = true;
+
+    // Past the deadline, drop whatever is still open
+    const deadline =
+      options.timeout !== undefined
+        ? setTimeout(() => {
+            this.server.closeAllConnections();
+            this.sockets.forEach(socket => socket.destroy());
+          }, options.timeout)
+        : undefined;
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        try {
+          // Stop accepting connections; resolves once every socket is gone
+          this.server.close((error?: Error) => {
+            if (error) {
+              reject(error);
+            } else {
+              this.logger.debug('HTTP/1.1 server closed');
+              resolve();
+            }
+          });
+
+          // Idle keep-alive sockets can go right away, WebSockets are told we are leaving
+          this.server.closeIdleConnections();
+          this.webSockets.forEach(webSocket => webSocket.close(1001, 'Server shutting down'));
+        } catch (error) {
+          reject(error);
+        }
+      });
+    } finally {
+      clearTimeout(deadline);
+      this.draining = false;
+    }
+  }
+
+  // Swaps certificates without dropping open connections; new handshakes use the new ones
+  updateCertificates(options: ITlsOptions): void {
+    if (!this.certificates) {
+      throw new Error('Cannot update certificates of an engine started without TLS');
+    }
+
+    this.certificates.update(options);
+    (this.server as https.Server).setSecureContext(this.certificates.secureContextOptions);
   }
 
   setRequestHandler(handler: (request: IRequest) => Promise<IResponse>): void {
     this.requestHandler = handler;
   }
+
+  setLogger(logger: ILogger): void {
+    this.logger = logger;
+  }
+
+  setQueryParser(parser: IQueryParser): void {
+    this.queryParser = parser;
+  }
+
+  setUpgradeHandler(handler: (request: IRequest) => Promise<IWebSocketUpgrade>): void {
+    this.upgradeHandler = handler;
+  }
 }
@@ -0,0 +1,214 @@
+import { Readable } from 'stream';
+import * as zlib from 'zlib';
+import type { IEngine, IEngineCloseOptions } from '../interfaces/IEngine';
+import type { IInjectOptions, IInjectResponse } from '../interfaces/IInject';
+import type { IQueryParser } from '../interfaces/IQuery';
+import type { IRequest } from '../interfaces/IRequest';
+import type { IResponse } from '../interfaces/IResponse';
+import { createRequestHeaders, HttpHeaders } from '../headers';
+import { QueryParser } from '../query';
+import { isStreamBody, toReadable } from '../stream';
+
+/**
+ * In-memory engine: requests are injected as plain objects and responses are
+ * serialized the way the network engines would, without opening a port.
+ */
+export class LoopbackEngine implements IEngine {
+  public readonly protocol = 'HTTP/1.1';
+  public readonly isSecure = false;
+
+  private requestHandler?: (request: IRequest) => Promise<IResponse>;
+  private pending = new Set<Promise<unknown>>();
+  private queryParser: IQueryParser = new QueryParser();
+
+  public async listen(_port: number, callback?: () => void): Promise<void> {
+    callback?.();
+  }
+
+  // Waits for injected requests that are still in flight
+  public async close(_options: IEngineCloseOptions = {}): Promise<void> {
+    await Promise.allSettled([...this.pending]);
+  }
+
+  public setRequestHandler(handler: (request: IRequest) => Promise<IResponse>): void {
+    this.requestHandler = handler;
+  }
+
+  public setQueryParser(parser: IQueryParser): void {
+    this.queryParser = parser;
+  }
+
+  public inject(options: IInjectOptions): Promise<IInjectResponse> {
+    const result = this.handle(options);
+    this.pending.add(result);
+    void result.finally(() => this.pending.delete(result));
+    return result;
+  }
+
+  private async handle(options: IInjectOptions): Promise<IInjectResponse> {
+    if (!this.requestHandler) {
+      return this.createResponse(501, this.plainText(), 'Not Implemented');
+    }
+
+    try {
+      const response = await this.requestHandler(this.createRequest(options));
+      return await this.serialize(response);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      return this.createResponse(500, this.plainText(), message);
+    }
+  }
+
+  private createRequest(options: IInjectOptions): IRequest {
+    const headerList = new HttpHeaders(options.headers);
+    const defaults: Record<string, string> = {};
+    if (!headerList.has('host')) {
+      defaults['host'] = 'localhost';
+    }
+
+    const payload = this.encodeBody(options.body, headerList, defaults);
+    if (payload.length > 0 && !headerList.has('content-length')) {
+      defaults['content-length'] = String(payload.length);
+    }
+    Object.entries(defaults).forEach(([name, value]) => headerList.append(name, value));
+
+    const headers = createRequestHeaders(headerList);
+    const url = new URL(options.url, `http://${headers['host']}`);
+
+    const query = this.queryParser.parse(url.search);
+
+    return {
+      id: '',
+      method: options.method ?? 'GET',
+      url,
+      path: url.pathname,
+      headers,
+      query,
+      params: {},
+      body: undefined,
+      stream: Readable.from(payload.length > 0 ? [payload] : []),
+      cookies: {},
+      signedCookies: {},
+      state: {},
+      protocol: this.protocol,
+      remoteAddress: options.remoteAddress ?? '127.0.0.1',
+      userAgent: headers['user-agent'],
+    };
+  }
+
+  // Picks a content-type for the body unless the caller sent one
+  private encodeBody(
+    body: IInjectOptions['body'],
+    headers: HttpHeaders,
+    defaults: Record<string, string>
+  ): Buffer {
+    if (body === undefined) {
+      return Buffer.alloc(0);
+    }
+
+    let contentType = 'application/json';
+    let payload: Buffer;
+    if (typeof body === 'string') {
+      contentType = 'text/plain; charset=utf-8';
+      payload = Buffer.from(body);
+    } else if (Buffer.isBuffer(body)) {
+      contentType = 'application/octet-stream';
+      payload = body;
+    } else {
+      payload = Buffer.from(JSON.stringify(body));
+    }
+
+    if (!headers.has('content-type')) {
+      defaults['content-type'] = contentType;
+    }
+    return payload;
+  }
+
+  private async serialize(response: IResponse): Promise<IInjectResponse> {
+    const headers = new HttpHeaders(
+      response.rawHeaders.map(([name, value]): [string, string] => [name.toLowerCase(), value])
+    );
+
+    const body = response.body;
+    let payload: Buffer;
+
+    if (isStreamBody(body)) {
+      const chunks: Buffer[] = [];
+      for await (const chunk of toReadable(body)) {
+        chunks.push(Buffer.from(chunk));
+      }
+      payload = Buffer.concat(chunks);
+    } else if (body === undefined) {
+      payload = Buffer.alloc(0);
+    } else if (typeof body === 'string' || Buffer.isBuffer(body)) {
+      payload = Buffer.from(body);
+    } else {
+      if (!headers.has('content-type')) {
+        headers.append('content-type', 'application/json');
+      }
+      payload = Buffer.from(JSON.stringify(body));
+    }
+
+    return this.createResponse(response.status || 200, headers, payload);
+  }
+
+  private createResponse(
+    status: number,
+    headerList: HttpHeaders,
+    payload: string | Buffer
+  ): IInjectResponse {
+    const headers = headerList.toRecord();
+    const rawBody = Buffer.from(payload);
+    const decoded = this.decode(rawBody, headers['content-encoding']);
+
+    return {
+      status,
+      headers,
+      rawHeaders: headerList.raw(),
+      body: this.parseBody(decoded, headers['content-type']),
+      rawBody,
+    };
+  }
+
+  private plainText(): HttpHeaders {
+    return new HttpHeaders({ 'content-type': 'text/plain' });
+  }
+
+  // Like an HTTP client, parse the decompressed body; rawBody stays as sent
+  private decode(rawBody: Buffer, encoding?: string): Buffer {
+    if (rawBody.length === 0) {
+      return rawBody;
+    }
+
+    switch (encoding) {
+      case 'gzip':
+        return zlib.gunzipSync(rawBody);
+      case 'deflate':
+        return zlib.inflateSync(rawBody);
+      case 'br':
+        return zlib.brotliDecompressSync(rawBody);
+      default:
+        return rawBody;
+    }
+  }
+
+  private parseBody(rawBody: Buffer, contentType = ''): unknown {
+    if (rawBody.length === 0) {
+      return undefined;
+    }
+
+    const type = contentType.split(';')[0].trim().toLowerCase();
+    if (type === 'application/json' || type.endsWith('+json')) {
+      try {
+        return JSON.parse(rawBody.toString('utf8'));
+      } catch {
+        // Leave malformed JSON as text so the test can see what was sent
+        return rawBody.toString('utf8');
+      }
+    }
+    if (type.startsWith('text/')) {
+      return rawBody.toString('utf8');
+    }
+    return rawBody;
+  }
+}
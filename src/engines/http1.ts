@@ -0,0 +1,119 @@
+import type * as http from 'http';
+import { pipeline } from 'stream/promises';
+import { createRequestHeaders, HttpHeaders } from '../headers';
+import type { IQueryParser } from '../interfaces/IQuery';
+import type { HttpMethod, IRequest } from '../interfaces/IRequest';
+import type { IResponse } from '../interfaces/IResponse';
+import { isStreamBody, toReadable } from '../stream';
+
+// HTTP/1 request and response conversion, shared by HttpEngine and the HTTP/1.1 fallback of Http2Engine
+
+export function createHttp1Request(
+  req: http.IncomingMessage,
+  queryParser: IQueryParser,
+  secure: boolean
+): IRequest {
+  // Convert string to HttpMethod
+  const method: HttpMethod = normalizeHttpMethod(req.method || 'GET');
+
+  // Create a proper URL object from the parsed URL
+  const scheme = req.headers['x-forwarded-proto'] || (secure ? 'https' : 'http');
+  const requestUrl = new URL(`${scheme}://${req.headers.host || 'localhost'}${req.url || '/'}`);
+
+  const query = queryParser.parse(requestUrl.search);
+
+  // Route parameters are filled in by the server once the route is matched
+  const params: Record<string, string> = {};
+
+  // rawHeaders keeps repeated headers that req.headers would merge or drop
+  const headerList = new HttpHeaders();
+  for (let i = 0; i < req.rawHeaders.length; i += 2) {
+    headerList.append(req.rawHeaders[i], req.rawHeaders[i + 1]);
+  }
+  const requestHeaders = createRequestHeaders(headerList);
+
+  // The body is left on the stream; the server parses it once the route is known
+  return {
+    id: '',
+    method,
+    url: requestUrl,
+    path: requestUrl.pathname,
+    headers: requestHeaders,
+    query,
+    params,
+    body: undefined,
+    stream: req,
+    cookies: {},
+    signedCookies: {},
+    state: {},
+    // The version the client actually spoke, e.g. HTTP/1.0
+    protocol: `HTTP/${req.httpVersion}`,
+    remoteAddress: req.socket.remoteAddress,
+    userAgent: requestHeaders['user-agent'],
+  };
+}
+
+export async function sendHttp1Response(
+  res: http.ServerResponse,
+  response: IResponse
+): Promise<void> {
+  // Set status code
+  res.statusCode = response.status || 200;
+
+  // Repeated headers such as set-cookie are written as separate lines
+  Object.entries(new HttpHeaders(response.rawHeaders).grouped()).forEach(([name, values]) => {
+    res.setHeader(name, values.length === 1 ? values[0] : values);
+  });
+
+  // Stream bodies are piped with backpressure; without a content-length
+  // Node sends them using chunked transfer encoding
+  if (isStreamBody(response.body)) {
+    await pipeline(toReadable(response.body), res);
+    return;
+  }
+
+  // Send body if present
+  if (response.body !== undefined) {
+    if (typeof response.body === 'string') {
+      res.write(response.body);
+    } else if (Buffer.isBuffer(response.body)) {
+      res.write(response.body);
+    } else {
+      // Convert objects to JSON
+      const jsonString = JSON.stringify(response.body);
+
+      // Set content-type if not already set
+      if (!response.headers?.['content-type']) {
+        res.setHeader('Content-Type', 'application/json');
+      }
+
+      res.write(jsonString);
+    }
+  }
+
+  // End the response
+  res.end();
+}
+
+function normalizeHttpMethod(method: string): HttpMethod {
+  const upperMethod = method.toUpperCase();
+
+  // Validate that it's a valid HttpMethod
+  const validMethods: HttpMethod[] = [
+    'GET',
+    'POST',
+    'PUT',
+    'PATCH',
+    'DELETE',
+    'HEAD',
+    'OPTIONS',
+    'TRACE',
+    'CONNECT',
+  ];
+
+  if (!validMethods.includes(upperMethod as HttpMethod)) {
+    throw new Error(`Unsupported HTTP method: ${method}`);
+  }
+
+  return upperMethod as HttpMethod;
+}
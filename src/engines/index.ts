@@ -1,2 +1,3 @@
 export * from './HttpEngine';
 export * from './Http2Engine';
+export * from './LoopbackEngine';
@@ -0,0 +1,156 @@
+import { STATUS_CODES } from 'http';
+import type { IValidationIssue } from '../interfaces/IValidator';
+
+export interface HttpErrorOptions {
+  // URI identifying the problem type, `about:blank` by default
+  type?: string;
+  // Extra response headers, e.g. Allow or WWW-Authenticate
+  headers?: Record<string, string>;
+  // Additional members merged into the problem details body
+  extensions?: Record<string, unknown>;
+  // Whether the message may be shown to clients. Defaults to true below 500.
+  expose?: boolean;
+  cause?: unknown;
+}
+
+/**
+ * Error carrying an HTTP status. Throw it from middlewares or handlers and the
+ * server answers with the matching status instead of a 500.
+ */
+export class HttpError extends Error {
+  public readonly status: number;
+  public readonly title: string;
+  public readonly type: string;
+  public readonly headers: Record<string, string>;
+  public readonly extensions: Record<string, unknown>;
+  public readonly expose: boolean;
+  public readonly cause?: unknown;
+
+  constructor(status: number, message?: string, options: HttpErrorOptions = {}) {
+    const title = STATUS_CODES[status] ?? 'Unknown Error';
+    super(message ?? title);
+
+    this.name = new.target.name;
+    this.status = status;
+    this.title = title;
+    this.type = options.type ?? 'about:blank';
+    this.headers = options.headers ?? {};
+    this.extensions = options.extensions ?? {};
+    this.expose = options.expose ?? status < 500;
+    this.cause = options.cause;
+  }
+}
+
+export class BadRequestError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(400, message, options);
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(401, message, options);
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(403, message, options);
+  }
+}
+
+// Request data failed a route schema; lists every issue under `errors`
+export class ValidationError extends BadRequestError {
+  public readonly issues: IValidationIssue[];
+
+  constructor(
+    issues: IValidationIssue[],
+    message = 'Request validation failed',
+    options: HttpErrorOptions = {}
+  ) {
+    super(message, { ...options, extensions: { ...options.extensions, errors: issues } });
+    this.issues = issues;
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(404, message, options);
+  }
+}
+
+export class MethodNotAllowedError extends HttpError {
+  constructor(allow: string[], message?: string, options: HttpErrorOptions = {}) {
+    super(405, message, { ...options, headers: { ...options.headers, allow: allow.join(', ') } });
+  }
+}
+
+export class NotAcceptableError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(406, message, options);
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(409, message, options);
+  }
+}
+
+export class GoneError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(410, message, options);
+  }
+}
+
+export class PayloadTooLargeError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(413, message, options);
+  }
+}
+
+export class UnsupportedMediaTypeError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(415, message, options);
+  }
+}
+
+// Range header outside the resource; tells the client the actual size
+export class RangeNotSatisfiableError extends HttpError {
+  constructor(size: number, message?: string, options: HttpErrorOptions = {}) {
+    super(416, message, {
+      ...options,
+      headers: { ...options.headers, 'content-range': `bytes */${size}` },
+    });
+  }
+}
+
+export class UnprocessableEntityError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(422, message, options);
+  }
+}
+
+export class TooManyRequestsError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(429, message, options);
+  }
+}
+
+export class InternalServerError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(500, message, options);
+  }
+}
+
+export class NotImplementedError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(501, message, options);
+  }
+}
+
+export class ServiceUnavailableError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(503, message, options);
+  }
+}
@@ -0,0 +1,2 @@
+export * from './HttpError';
+export * from './problemDetails';
@@ -0,0 +1,39 @@
+import type { ErrorFormatter, IProblemDetails } from '../interfaces/IErrorFormatter';
+import { HttpError, InternalServerError } from './HttpError';
+
+// Wraps anything thrown into an HttpError; unknown errors become an unexposed 500
+export function toHttpError(error: unknown): HttpError {
+  if (error instanceof HttpError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : undefined;
+  return new InternalServerError(message, { cause: error, expose: false });
+}
+
+// Default formatter: serializes errors as application/problem+json
+export const problemDetailsFormatter: ErrorFormatter = (error, request, response, context) => {
+  const problem: IProblemDetails = {
+    ...error.extensions,
+    type: error.type,
+    title: error.title,
+    status: error.status,
+  };
+
+  if ((error.expose || !context.production) && error.message !== error.title) {
+    problem.detail = error.message;
+  }
+
+  if (request) {
+    problem.instance = request.path;
+  }
+
+  // Stack traces help while developing server errors, never in production
+  if (!context.production && error.status >= 500) {
+    const origin = error.cause instanceof Error ? error.cause : error;
+    problem.stack = origin.stack?.split('\n').map(line => line.trim());
+  }
+
+  response.setHeader('content-type', 'application/problem+json');
+  response.send(problem);
+};
@@ -0,0 +1,109 @@
+import type { IHeaderValues, RequestHeaders } from '../interfaces/IRequest';
+
+/**
+ * Case-insensitive header list that keeps every value, in the order and with
+ * the name casing they were added. Repeated values are combined with `, ` when
+ * read as a single string, except cookies, which use `; `.
+ */
+export class HttpHeaders {
+  private entries: [string, string][] = [];
+
+  constructor(init: Record<string, string | string[] | undefined> | [string, string][] = []) {
+    const pairs = Array.isArray(init) ? init : Object.entries(init);
+    for (const [name, value] of pairs) {
+      if (Array.isArray(value)) {
+        value.forEach(item => this.append(name, item));
+      } else if (value !== undefined) {
+        this.append(name, value);
+      }
+    }
+  }
+
+  public get(name: string): string | undefined {
+    const values = this.getAll(name);
+    if (values.length === 0) {
+      return undefined;
+    }
+    return values.join(name.toLowerCase() === 'cookie' ? '; ' : ', ');
+  }
+
+  public getAll(name: string): string[] {
+    const lower = name.toLowerCase();
+    return this.entries.filter(([key]) => key.toLowerCase() === lower).map(([, value]) => value);
+  }
+
+  public has(name: string): boolean {
+    const lower = name.toLowerCase();
+    return this.entries.some(([key]) => key.toLowerCase() === lower);
+  }
+
+  // Replaces every value of the header, keeping the position of the first one
+  public set(name: string, value: string): void {
+    const lower = name.toLowerCase();
+    const index = this.entries.findIndex(([key]) => key.toLowerCase() === lower);
+    if (index === -1) {
+      this.entries.push([name, value]);
+      return;
+    }
+
+    this.entries[index] = [name, value];
+    this.entries = this.entries.filter(
+      ([key], position) => position <= index || key.toLowerCase() !== lower
+    );
+  }
+
+  public append(name: string, value: string): void {
+    this.entries.push([name, value]);
+  }
+
+  public delete(name: string): void {
+    const lower = name.toLowerCase();
+    this.entries = this.entries.filter(([key]) => key.toLowerCase() !== lower);
+  }
+
+  // Every [name, value] pair in order, names as they were added
+  public raw(): [string, string][] {
+    return this.entries.map(([name, value]) => [name, value]);
+  }
+
+  // Values grouped under lower-cased names, the shape Node's setHeader and http2 expect.
+  // Null-prototype so names like `constructor` or `__proto__` stay plain keys
+  public grouped(): Record<string, string[]> {
+    const groups: Record<string, string[]> = Object.create(null);
+    for (const [name, value] of this.entries) {
+      (groups[name.toLowerCase()] ??= []).push(value);
+    }
+    return groups;
+  }
+
+  // One combined value per lower-cased name
+  public toRecord(): Record<string, string> {
+    const record: Record<string, string> = Object.create(null);
+    for (const name of Object.keys(this.grouped())) {
+      record[name] = this.get(name)!;
+    }
+    return record;
+  }
+}
+
+/**
+ * Plain header record for `request.headers`: lower-cased names with combined
+ * values, plus non-enumerable `getAll` and `raw` backed by the full list.
+ */
+export function createRequestHeaders<T extends object = Record<string, string>>(
+  headers: HttpHeaders,
+  values: T = headers.toRecord() as T
+): RequestHeaders<T> {
+  const accessors: IHeaderValues = {
+    getAll: name => headers.getAll(name),
+    raw: () => headers.raw(),
+  };
+
+  return Object.defineProperties(
+    { ...values },
+    {
+      getAll: { value: accessors.getAll, enumerable: false },
+      raw: { value: accessors.raw, enumerable: false },
+    }
+  ) as RequestHeaders<T>;
+}
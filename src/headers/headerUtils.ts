@@ -0,0 +1,18 @@
+import type { IResponse } from '../interfaces/IResponse';
+
+// Case-insensitive header lookup on a plain header record
+export function getHeader(headers: Record<string, string>, name: string): string | undefined {
+  const lower = name.toLowerCase();
+  const key = Object.keys(headers).find(key => key.toLowerCase() === lower);
+  return key === undefined ? undefined : headers[key];
+}
+
+// Adds a token to the Vary header unless it, or `*`, is already listed
+export function appendVary(response: IResponse, value: string): void {
+  const current = getHeader(response.headers, 'vary');
+  const values = current ? current.split(',').map(v => v.trim()) : [];
+
+  if (!values.some(v => v.toLowerCase() === value.toLowerCase() || v === '*')) {
+    response.setHeader('vary', [...values, value].join(', '));
+  }
+}
@@ -0,0 +1,2 @@
+export * from './headerUtils';
+export * from './HttpHeaders';
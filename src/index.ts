@@ -3,5 +3,33 @@ export * from './interfaces';
 
 // Export implementations
 export { Server } from './server';
+export { apiKeyAuth, basicAuth, JwtError, jwtAuth, JwtVerifier } from './auth';
+export type { ServerOptions } from './server';
 export { RouteGroup } from './RouteGroup';
-export { Http2Engine, HttpEngine } from './engines';
+export { Http2Engine, HttpEngine, LoopbackEngine } from './engines';
+export { getRequestContext } from './context';
+export { compression } from './compression';
+export { CookieSigner, parseCookies, serializeCookie } from './cookies';
+export { cors } from './cors';
+export * from './errors';
+export { HttpHeaders } from './headers';
+export { accessLog, createDefaultLogger, JsonLogger } from './logger';
+export type { AccessLogOptions, JsonLoggerOptions } from './logger';
+export { OpenApiGenerator } from './openapi';
+export { QueryParser } from './query';
+export { MemoryStore, rateLimit } from './rateLimit';
+export { Router } from './router';
+export { cookieSession, MemorySessionStore, session } from './session';
+export { lookupMimeType, serveStatic } from './static';
+export type { RouteMatch } from './router';
+export {
+  BodyParser,
+  JsonParser,
+  MultipartParser,
+  RawParser,
+  TextParser,
+  UrlEncodedParser,
+} from './body';
+export { defineRoute, JsonSchemaValidator, RequestValidator } from './validation';
+export type { JsonSchemaValidatorOptions } from './validation';
+export { encodeFrame, FrameParser, Opcode, WebSocketProtocolError } from './websocket';
@@ -0,0 +1,103 @@
+import type { JsonWebKey, KeyObject } from 'crypto';
+import type { IRequest } from './IRequest';
+
+export type AuthScheme = 'bearer' | 'basic' | 'apiKey';
+
+/**
+ * Authenticated caller, attached as `request.state.principal`. Augment it to
+ * type extra fields your verify callbacks add:
+ *
+ *   declare module 'nuska' {
+ *     interface IPrincipal { tenantId?: string }
+ *   }
+ */
+export interface IPrincipal {
+  // User ID, username or API key owner
+  id: string;
+  scheme: AuthScheme;
+  roles?: string[];
+  scopes?: string[];
+  // Verified JWT claims, or any details a verify callback wants to keep
+  claims?: Record<string, unknown>;
+}
+
+// Finds the caller for route role and scope checks; defaults to `request.state.principal`
+export type PrincipalResolver = (
+  request: IRequest
+) => IPrincipal | undefined | Promise<IPrincipal | undefined>;
+
+// Roles and scopes declared on a route or group; the principal needs every one of them
+export interface IAccessRequirements {
+  roles?: string[];
+  scopes?: string[];
+}
+
+export interface IAuthOptions {
+  // Realm announced in the WWW-Authenticate challenge
+  realm?: string;
+  // Let requests without credentials through unauthenticated; invalid credentials are still refused
+  optional?: boolean;
+}
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+export interface IJwtKey {
+  // Matched against the token's `kid` header when both are set
+  kid?: string;
+  algorithm: JwtAlgorithm;
+  // Shared secret for HS256; public key as PEM, JWK or KeyObject for RS256 and ES256
+  key: string | Buffer | KeyObject | JsonWebKey;
+}
+
+export interface IJwtClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+export interface IJwtVerifyOptions {
+  // Accepted keys; a function is called per token, e.g. to serve a cached JWKS
+  keys: IJwtKey[] | (() => IJwtKey[] | Promise<IJwtKey[]>);
+  // Accepted `iss` values
+  issuer?: string | string[];
+  // The token's `aud` must contain one of these
+  audience?: string | string[];
+  // Seconds of clock skew allowed for exp and nbf. Defaults to 0.
+  clockTolerance?: number;
+  // Refuse tokens without `exp`. Defaults to true.
+  requireExpiry?: boolean;
+}
+
+export interface IJwtAuthOptions extends IJwtVerifyOptions, IAuthOptions {
+  // Maps verified claims to the principal; defaults to sub, roles and scope/scp
+  principal?: (claims: IJwtClaims, request: IRequest) => IPrincipal | Promise<IPrincipal>;
+}
+
+// Principal, or true to accept with the default principal; anything falsy refuses the credentials
+export type AuthVerifyResult = IPrincipal | boolean | undefined;
+
+export interface IBasicAuthOptions extends IAuthOptions {
+  // Username to password map, compared in constant time
+  users?: Record<string, string>;
+  // Checks credentials the users map does not cover, e.g. against a database
+  verify?: (
+    username: string,
+    password: string,
+    request: IRequest
+  ) => AuthVerifyResult | Promise<AuthVerifyResult>;
+}
+
+export interface IApiKeyAuthOptions extends IAuthOptions {
+  // Header carrying the key, x-api-key by default
+  header?: string;
+  // Query parameter also accepted as the key; off unless set
+  query?: string;
+  // Key to owner ID or principal map, compared in constant time
+  keys?: Record<string, string | IPrincipal>;
+  // Checks keys the map does not cover
+  verify?: (key: string, request: IRequest) => AuthVerifyResult | Promise<AuthVerifyResult>;
+}
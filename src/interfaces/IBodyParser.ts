@@ -0,0 +1,25 @@
+export interface IContentType {
+  // Lower-cased media type without parameters, e.g. application/json
+  type: string;
+  // Media type parameters such as charset or boundary
+  parameters: Record<string, string>;
+}
+
+export interface IBodyParser {
+  // Media types handled by this parser. Supports `type/*`, `*/*` and `+suffix` patterns.
+  readonly types: string[];
+  parse(raw: Buffer, contentType: IContentType): unknown | Promise<unknown>;
+}
+
+export interface IUploadedFile {
+  fieldName: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  data: Buffer;
+}
+
+export interface IMultipartBody {
+  fields: Record<string, string | string[]>;
+  files: IUploadedFile[];
+}
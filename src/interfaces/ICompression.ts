@@ -0,0 +1,12 @@
+export type CompressionEncoding = 'br' | 'gzip' | 'deflate';
+
+export interface ICompressionOptions {
+  // Bodies smaller than this many bytes are sent as they are. Defaults to 1024.
+  threshold?: number;
+  // Supported encodings, in order of server preference. Defaults to br, gzip, deflate.
+  encodings?: CompressionEncoding[];
+  // zlib compression level for gzip and deflate, or quality for brotli
+  level?: number;
+  // Decides whether a content type is worth compressing; the default skips images, archives and other binary formats
+  filter?: (contentType: string) => boolean;
+}
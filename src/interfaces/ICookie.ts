@@ -0,0 +1,24 @@
+export type CookieSameSite = 'strict' | 'lax' | 'none';
+
+export interface ICookieOptions {
+  domain?: string;
+  // Defaults to `/`
+  path?: string;
+  expires?: Date;
+  // Lifetime in seconds; takes precedence over `expires` in browsers
+  maxAge?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: CookieSameSite;
+  // CHIPS: keep the cookie in a per top-level-site jar
+  partitioned?: boolean;
+  priority?: 'low' | 'medium' | 'high';
+  // Append an HMAC signature made with the server's cookie keys
+  signed?: boolean;
+}
+
+export interface ICookieSettings {
+  // Secrets for signed cookies. The first signs new cookies, all of them are
+  // accepted when verifying, so keys can be rotated by prepending a new one.
+  keys: string[];
+}
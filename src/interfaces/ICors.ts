@@ -0,0 +1,29 @@
+import type { IRequest } from './IRequest';
+
+/**
+ * Which origins may call the API:
+ * - `true` or `'*'` allows any origin
+ * - a string, RegExp or list of them allows matching origins
+ * - a function decides per request
+ */
+export type CorsOrigin =
+  | boolean
+  | string
+  | RegExp
+  | (string | RegExp)[]
+  | ((origin: string, request: IRequest) => boolean | Promise<boolean>);
+
+export interface ICorsOptions {
+  // Defaults to any origin
+  origin?: CorsOrigin;
+  // Methods announced in preflight answers
+  methods?: string[];
+  // Request headers allowed in preflight answers; defaults to echoing what the browser asked for
+  allowedHeaders?: string[];
+  // Response headers the browser may expose to scripts
+  exposedHeaders?: string[];
+  // Allow cookies and authorization headers; the origin is then echoed instead of `*`
+  credentials?: boolean;
+  // Seconds a browser may cache the preflight answer
+  maxAge?: number;
+}
@@ -1,14 +1,37 @@
+import type { ILogger } from './ILogger';
+import type { IQueryParser } from './IQuery';
 import type { IRequest } from './IRequest';
 import type { IResponse } from './IResponse';
+import type { ITlsOptions } from './ITls';
+import type { IWebSocketUpgrade } from './IWebSocket';
+
+export interface IEngineCloseOptions {
+  // Milliseconds to wait for in-flight requests before connections are destroyed.
+  // Without it the engine waits for every request to finish.
+  timeout?: number;
+}
 
 export interface IEngine {
   // Protocol lifecycle
   listen(port: number, callback?: () => void): Promise<void>;
-  close(): Promise<void>;
+  // Stops accepting connections and drains the open ones
+  close(options?: IEngineCloseOptions): Promise<void>;
 
   // Engine only knows about protocol, not routing
   setRequestHandler(handler: (request: IRequest) => Promise<IResponse>): void;
 
+  // Optional: engines that support WebSocket upgrades resolve them through this handler
+  setUpgradeHandler?(handler: (request: IRequest) => Promise<IWebSocketUpgrade>): void;
+
+  // Optional: the server hands its logger to the engine
+  setLogger?(logger: ILogger): void;
+
+  // Optional: the server hands its configured query string parser to the engine
+  setQueryParser?(parser: IQueryParser): void;
+
+  // Optional: TLS engines swap certificates in place, keeping open connections
+  updateCertificates?(options: ITlsOptions): void;
+
   // Protocol metadata
   readonly protocol: string;
   readonly isSecure: boolean;
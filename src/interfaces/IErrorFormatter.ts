@@ -0,0 +1,29 @@
+import type { HttpError } from '../errors/HttpError';
+import type { IRequest } from './IRequest';
+import type { IResponse } from './IResponse';
+
+// RFC 7807 problem details object
+export interface IProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  [extension: string]: unknown;
+}
+
+export interface IErrorFormatContext {
+  // In production, unexposed messages and stack traces must not reach the client
+  production: boolean;
+}
+
+/**
+ * Writes the body for an error response. Status and the error's headers are
+ * already set on `response` when the formatter runs.
+ */
+export type ErrorFormatter = (
+  error: HttpError,
+  request: IRequest | undefined,
+  response: IResponse,
+  context: IErrorFormatContext
+) => void | Promise<void>;
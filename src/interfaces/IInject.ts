@@ -0,0 +1,25 @@
+import type { HttpMethod } from './IRequest';
+
+export interface IInjectOptions {
+  // Defaults to GET
+  method?: HttpMethod;
+  // Path with optional query string, e.g. /users?page=2
+  url: string;
+  // Arrays send the header once per value
+  headers?: Record<string, string | string[]>;
+  // Objects are sent as JSON unless a content-type header says otherwise
+  body?: string | Buffer | object;
+  remoteAddress?: string;
+}
+
+export interface IInjectResponse<TBody = unknown> {
+  status: number;
+  // Lower-cased header names; repeated headers are combined into one value
+  headers: Record<string, string>;
+  // Every header line in order, e.g. to read several set-cookie values
+  rawHeaders: [string, string][];
+  // Decompressed and parsed: JSON for JSON media types, a string for text, a Buffer otherwise; undefined when empty
+  body: TBody;
+  // Bytes as sent, still compressed when content-encoding is set
+  rawBody: Buffer;
+}
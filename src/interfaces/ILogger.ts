@@ -0,0 +1,11 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+// Structured data attached to a log entry
+export type LogFields = Record<string, unknown>;
+
+export interface ILogger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
@@ -2,7 +2,13 @@ import type { IRequest } from './IRequest';
 import type { IResponse } from './IResponse';
 
 export interface IMiddleware {
+  // Runs on the way in; call next() to continue down the chain. The request
+  // body is read once every `before` hook has passed, so it is not available here.
   before?(request: IRequest, response: IResponse, next: () => void): Promise<void>;
+  // Runs on the way out, in reverse registration order, once the handler has finished
   after?(request: IRequest, response: IResponse, next: () => void): Promise<void>;
   onError?(error: unknown, request: IRequest, response: IResponse, next: () => void): Promise<void>;
+  // Global middlewares only: runs once the final response is ready, including
+  // 404, 405 and error responses. The response can no longer be changed.
+  onFinish?(request: IRequest, response: IResponse): void | Promise<void>;
 }
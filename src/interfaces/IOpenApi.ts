@@ -0,0 +1,46 @@
+import type { IJsonSchema } from './IValidator';
+
+export interface IOpenApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+export interface IOpenApiOptions {
+  info?: IOpenApiInfo;
+  servers?: { url: string; description?: string }[];
+  // Serve the document as JSON at this path, e.g. /openapi.json
+  path?: string;
+}
+
+export interface IOpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required: boolean;
+  description?: string;
+  schema: IJsonSchema;
+}
+
+export interface IOpenApiMediaType {
+  schema: IJsonSchema;
+}
+
+export interface IOpenApiOperation {
+  description?: string;
+  tags?: string[];
+  // Roles and scopes the route requires; OpenAPI has no field for them, hence the extensions
+  'x-roles'?: string[];
+  'x-scopes'?: string[];
+  parameters?: IOpenApiParameter[];
+  requestBody?: { required: boolean; content: Record<string, IOpenApiMediaType> };
+  responses: Record<string, { description: string; content?: Record<string, IOpenApiMediaType> }>;
+}
+
+// OpenAPI 3.1 document, limited to the parts generated from routes
+export interface IOpenApiDocument {
+  openapi: '3.1.0';
+  info: IOpenApiInfo;
+  servers?: { url: string; description?: string }[];
+  tags?: { name: string; description?: string }[];
+  paths: Record<string, Record<string, IOpenApiOperation>>;
+}
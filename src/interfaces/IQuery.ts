@@ -0,0 +1,23 @@
+export type QueryValue = string | number | boolean | QueryValue[] | ParsedQuery;
+
+export interface ParsedQuery {
+  [key: string]: QueryValue;
+}
+
+export interface IQueryParser {
+  // Parses a search string, with or without the leading `?`
+  parse(search: string): ParsedQuery;
+}
+
+export interface IQueryParserOptions {
+  // Collect repeated keys and `key[]` into arrays. Defaults to true; otherwise the first value wins.
+  arrays?: boolean;
+  // Bracket levels turned into nested objects, 5 by default; deeper brackets stay part of the key. 0 disables nesting.
+  depth?: number;
+  // Pairs beyond this count are ignored. Defaults to 1000.
+  parameterLimit?: number;
+  // Highest index accepted in `key[3]` notation; larger ones become object keys. Defaults to 100.
+  arrayLimit?: number;
+  // Convert `true`, `false` and numeric values. Defaults to false.
+  coerce?: boolean;
+}
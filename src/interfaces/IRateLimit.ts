@@ -0,0 +1,69 @@
+import type { IRequest } from './IRequest';
+
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+/**
+ * Where the client key comes from:
+ * - `'ip'` uses the remote address
+ * - `{ header }` uses a request header, falling back to the remote address
+ * - a function decides per request; returning undefined skips the limit
+ */
+export type RateLimitKey =
+  | 'ip'
+  | { header: string }
+  | ((request: IRequest) => string | undefined | Promise<string | undefined>);
+
+// Counters kept per key; each algorithm stores its own fields
+export type RateLimitState = Record<string, number>;
+
+export interface IRateLimitUpdate {
+  state: RateLimitState;
+  // How long the store must keep the state; afterwards the key starts afresh
+  ttlMs: number;
+}
+
+/**
+ * Storage for rate limit counters. `update` must apply the function atomically
+ * for a key so concurrent requests are not counted twice; shared stores such
+ * as Redis can implement it with a transaction or a script.
+ */
+export interface IRateLimitStore {
+  update(
+    key: string,
+    update: (state: RateLimitState | undefined) => IRateLimitUpdate
+  ): Promise<RateLimitState>;
+  reset(key: string): Promise<void>;
+}
+
+export interface IRateLimitOptions {
+  // Requests allowed per window, or the bucket capacity for token-bucket
+  limit: number;
+  // Window length; for token-bucket the time an empty bucket takes to refill
+  windowMs: number;
+  // Defaults to fixed-window
+  algorithm?: RateLimitAlgorithm;
+  // Defaults to the remote address
+  key?: RateLimitKey;
+  // Defaults to an in-memory store, which only limits a single process
+  store?: IRateLimitStore;
+  // Namespace for store keys, so several limiters can share a store
+  prefix?: string;
+  // Requests for which the limit does not apply
+  skip?: (request: IRequest) => boolean | Promise<boolean>;
+  // Send RateLimit-* headers on every response. Defaults to true.
+  headers?: boolean;
+  // Detail of the 429 problem response
+  message?: string;
+  // Clock used for the windows, mainly for tests
+  now?: () => number;
+}
+
+export interface IRateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Milliseconds until the quota is fully available again
+  resetMs: number;
+  // Milliseconds until the next request may succeed, when it was refused
+  retryAfterMs: number;
+}
@@ -1,3 +1,7 @@
+import type { Readable } from 'stream';
+import type { ParsedQuery } from './IQuery';
+import type { IRequestState } from './IRequestContext';
+
 export type HttpMethod =
   | 'GET'
   | 'POST'
@@ -9,24 +13,51 @@ export type HttpMethod =
   | 'TRACE'
   | 'CONNECT';
 
+// Every value of repeated headers, which the plain header record combines into one string
+export interface IHeaderValues {
+  // Values of a header in arrival order, matched case-insensitively
+  getAll(name: string): string[];
+  // [name, value] pairs exactly as received
+  raw(): [string, string][];
+}
+
+// Lower-cased header names with combined values, plus access to every value
+export type RequestHeaders<T = Record<string, string>> = T & IHeaderValues;
+
 export interface IRequest<
   TBody = unknown,
-  TQuery = Record<string, string>,
+  TQuery = ParsedQuery,
   TParams = Record<string, string>,
+  THeaders = Record<string, string>,
 > {
   // Core request metadata
+  // Assigned by the server from x-request-id/traceparent or generated; engines leave it empty
+  id: string;
   method: HttpMethod;
   url: URL;
   path: string;
 
   // Typed request data
-  headers: Record<string, string>;
+  headers: RequestHeaders<THeaders>;
   query: TQuery;
   params: TParams;
   body: TBody;
 
+  // Parsed from the Cookie header by the server; engines leave them empty
+  cookies: Record<string, string>;
+  // Cookies whose signature matched one of the server's cookie keys, without the signature
+  signedCookies: Record<string, string>;
+
+  // Per-request state attached by middlewares, see IRequestState
+  state: IRequestState;
+
+  // Raw body stream handed over by the engine, consumed by the body parser
+  stream?: Readable;
+
   // Protocol metadata
   protocol: string;
   remoteAddress?: string;
   userAgent?: string;
+  // performance.now() when the server started processing the request
+  receivedAt?: number;
 }
@@ -0,0 +1,37 @@
+import type { IPrincipal } from './IAuth';
+import type { IRequest } from './IRequest';
+import type { IRoute } from './IRoute';
+import type { ISession } from './ISession';
+
+/**
+ * Per-request state shared by middlewares and handlers. Augment it to type
+ * what your middlewares attach:
+ *
+ *   declare module 'nuska' {
+ *     interface IRequestState { user?: User }
+ *   }
+ */
+export interface IRequestState {
+  // Set by the session and cookieSession middlewares
+  session?: ISession;
+  // Set by the authentication middlewares
+  principal?: IPrincipal;
+}
+
+export interface IRequestContext {
+  // Incoming x-request-id or traceparent trace ID, or a generated UUID
+  readonly id: string;
+  readonly request: IRequest;
+  // Same object as `request.state`
+  readonly state: IRequestState;
+  // The matched route, set once routing succeeded
+  route?: IRoute;
+}
+
+export interface IRequestIdOptions {
+  // Header read from the request and echoed on the response, x-request-id by default
+  header?: string;
+  // Accept IDs sent by the client or an upstream proxy. Defaults to true.
+  trustIncoming?: boolean;
+  generate?: (request: IRequest) => string;
+}
@@ -1,15 +1,53 @@
+import type { Readable } from 'stream';
+import type { ReadableStream } from 'stream/web';
+import type { ICookieOptions } from './ICookie';
+import type { ISseOptions, ISseStream } from './ISseStream';
+
+// Response bodies that are written out incrementally instead of being buffered
+export type StreamBody = Readable | AsyncIterable<string | Uint8Array> | ReadableStream;
+
+// A resource announced with `res.push`; the engine serves it like a GET request for `path`
+export interface IPushPromise {
+  path: string;
+  // Request headers of the pushed request, added to those inherited from the original one
+  headers: Record<string, string>;
+}
+
 export interface IResponse<TBody = unknown> {
-  // Core response data
+  // Core response data. The body may also be a StreamBody, which engines write
+  // out incrementally with backpressure instead of buffering it.
   status: number;
+  // Lower-cased names; repeated headers are combined into one value
   headers: Record<string, string>;
+  // Every header line in order, names as they were set; engines write these
+  rawHeaders: [string, string][];
   body?: TBody;
 
-  // Typed response methods
+  // Typed response methods. Header names are case-insensitive.
   setHeader(name: string, value: string): IResponse<TBody>;
+  // Adds a value without replacing earlier ones, e.g. for Link or Set-Cookie
+  appendHeader(name: string, value: string): IResponse<TBody>;
+  removeHeader(name: string): IResponse<TBody>;
+  setCookie(name: string, value: string, options?: ICookieOptions): IResponse<TBody>;
+  // Expires the cookie; pass the same path and domain it was set with
+  clearCookie(name: string, options?: ICookieOptions): IResponse<TBody>;
   setStatus(code: number): IResponse<TBody>;
   send(data?: TBody): void;
   json(data: TBody): void;
 
+  // Switches to a long-lived text/event-stream response
+  sse(options?: ISseOptions): ISseStream;
+
+  // HTTP/2 only; other engines ignore both. Pushes a resource the client is
+  // about to request, e.g. a stylesheet. The pushed response goes through the
+  // usual routing and middlewares.
+  push(path: string, headers?: Record<string, string>): IResponse<TBody>;
+  // Sent after the body. Stream bodies only get trailers set before they start,
+  // unless their names are announced in a Trailer header.
+  setTrailer(name: string, value: string): IResponse<TBody>;
+  pushes: IPushPromise[];
+  trailers: Record<string, string>;
+
   // State tracking
   sent: boolean;
   finished: boolean;
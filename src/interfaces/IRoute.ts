@@ -1,12 +1,91 @@
+import type { ICorsOptions } from './ICors';
 import type { IMiddleware } from './IMiddleware';
+import type { ParsedQuery } from './IQuery';
 import type { HttpMethod, IRequest } from './IRequest';
-import type { IResponse } from './IResponse';
+import type { IResponse, StreamBody } from './IResponse';
+import type { InferSchema, Schema } from './IValidator';
+import type { IWebSocketRoute } from './IWebSocket';
 
-export interface IRoute {
+// Explicit response description a handler can return instead of calling res.send
+export interface IRouteResult<TBody = unknown> {
+  status?: number;
+  body?: TBody;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Anything a route handler may return. Ignored when the handler already called
+ * `res.send`/`res.json`; otherwise:
+ * - `IRouteResult` objects set status, headers and body
+ * - strings are sent as text/plain
+ * - Buffers and stream bodies (Readable, async iterables, web ReadableStreams)
+ *   are sent as application/octet-stream
+ * - any other object or array is sent as JSON
+ */
+export type RouteHandlerResult = void | IRouteResult | string | Buffer | StreamBody | object;
+
+export type RouteHandler<TRequest = IRequest> = (
+  req: TRequest,
+  res: IResponse
+) => RouteHandlerResult | Promise<RouteHandlerResult>;
+
+// Schemas checked before the handler runs; failures answer 400 with every issue
+export interface IRouteSchema {
+  body?: Schema;
+  query?: Schema;
+  params?: Schema;
+  headers?: Schema;
+}
+
+type InferPart<TSchema, K extends keyof IRouteSchema, TDefault> = TSchema extends {
+  [P in K]: infer S;
+}
+  ? InferSchema<S>
+  : TDefault;
+
+// Documents one response status of a route
+export interface IRouteResponse {
+  description?: string;
+  // Defaults to application/json
+  contentType?: string;
+  schema?: Schema;
+}
+
+// Request type seen by a handler whose route declares `TSchema`
+export type SchemaRequest<TSchema extends IRouteSchema> = IRequest<
+  InferPart<TSchema, 'body', unknown>,
+  InferPart<TSchema, 'query', ParsedQuery>,
+  InferPart<TSchema, 'params', Record<string, string>>,
+  InferPart<TSchema, 'headers', Record<string, string>>
+>;
+
+export interface IRoute<TSchema extends IRouteSchema = IRouteSchema> {
   method: HttpMethod;
   path: string;
-  handler: (req: IRequest, res: IResponse) => void | Promise<{ status: number; body: any }>;
+  // Declared as a method so typed routes stay assignable to plain IRoute
+  handler(
+    req: SchemaRequest<TSchema>,
+    res: IResponse
+  ): RouteHandlerResult | Promise<RouteHandlerResult>;
+  schema?: TSchema;
+  // Response documentation keyed by status code
+  responses?: Record<number, IRouteResponse>;
   middlewares?: IMiddleware[];
   description?: string;
   tags?: string[];
+  // The principal must hold every role and scope listed, checked before validation and the handler
+  roles?: string[];
+  scopes?: string[];
+
+  // Maximum request body size in bytes, overrides the group and server limits
+  bodyLimit?: number;
+  // Skip body parsing and expose the raw request stream as `request.body`
+  streamBody?: boolean;
+  // Refines the global cors() middleware for this route, or disables it with false
+  cors?: ICorsOptions | false;
+  // Set to false to send this route's responses uncompressed
+  compress?: boolean;
 }
+
+// Anything that can be registered on a server or route group
+export type RouteDefinition = IRoute | IWebSocketRoute;
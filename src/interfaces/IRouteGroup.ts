@@ -1,16 +1,27 @@
+import type { ICorsOptions } from './ICors';
 import type { IMiddleware } from './IMiddleware';
-import type { IRoute } from './IRoute';
+import type { RouteDefinition } from './IRoute';
+
+// Settings applied to every route of a group unless the route overrides them
+export interface IRouteGroupOptions {
+  bodyLimit?: number;
+  cors?: ICorsOptions | false;
+  // Added to the roles and scopes each route declares
+  roles?: string[];
+  scopes?: string[];
+}
 
 export interface IRouteGroup {
   // Core properties
   readonly prefix: string;
-  readonly routes: IRoute[];
+  readonly routes: RouteDefinition[];
   readonly middlewares: IMiddleware[];
 
   // Optional metadata
   readonly description?: string;
   readonly tags?: string[];
+  readonly options?: IRouteGroupOptions;
 
   // Core method for getting routes with applied prefix and middleware
-  getPrefixedRoutes(): IRoute[];
+  getPrefixedRoutes(): RouteDefinition[];
 }
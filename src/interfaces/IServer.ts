@@ -1,15 +1,25 @@
 import type { IEngine } from './IEngine';
+import type { IInjectOptions, IInjectResponse } from './IInject';
 import type { IMiddleware } from './IMiddleware';
-import type { IRoute } from './IRoute';
+import type { IOpenApiDocument } from './IOpenApi';
+import type { IRoute, IRouteSchema, RouteDefinition } from './IRoute';
 import type { IRouteGroup } from './IRouteGroup';
 
 export interface IServer {
   // Core lifecycle management
   start(port: number, callback?: () => void): Promise<void>;
-  stop(): Promise<void>;
+  // Drains in-flight requests, destroying connections once the timeout is reached
+  stop(options?: { timeout?: number }): Promise<void>;
 
   // Route registration with flexible input types
-  route(routeInput: IRoute | IRoute[] | IRouteGroup): IServer;
+  route<const TSchema extends IRouteSchema>(route: IRoute<TSchema>): IServer;
+  route(routeInput: RouteDefinition | RouteDefinition[] | IRouteGroup): IServer;
+
+  // In-memory request through routing, middlewares and serialization
+  inject<TBody = unknown>(options: IInjectOptions): Promise<IInjectResponse<TBody>>;
+
+  // OpenAPI 3.1 document built from the registered routes
+  openapi(): IOpenApiDocument;
 
   // Global middleware registration
   use(middleware: IMiddleware): IServer;
@@ -19,5 +29,7 @@ export interface IServer {
 
   // Server state
   readonly isRunning: boolean;
+  readonly isDraining: boolean;
+  readonly isReady: boolean;
   readonly engine: IEngine;
 }
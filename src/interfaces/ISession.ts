@@ -0,0 +1,63 @@
+import type { ICookieOptions } from './ICookie';
+
+/**
+ * Values kept in a session. Augment it to type your session data:
+ *
+ *   declare module 'nuska' {
+ *     interface ISessionData { userId?: string }
+ *   }
+ */
+export interface ISessionData {
+  [key: string]: unknown;
+}
+
+export interface ISession {
+  readonly id: string;
+  // True until the session has been saved once
+  readonly isNew: boolean;
+  get<K extends keyof ISessionData>(key: K): ISessionData[K] | undefined;
+  set<K extends keyof ISessionData>(key: K, value: ISessionData[K]): void;
+  delete(key: keyof ISessionData): void;
+  clear(): void;
+  toJSON(): ISessionData;
+  // Moves the data to a new ID; call it after login to prevent session fixation
+  regenerate(): void;
+  // Deletes the session and expires its cookie once the response is sent
+  destroy(): void;
+}
+
+/**
+ * Storage for server-side sessions. Data must round-trip through JSON so
+ * shared stores such as Redis can serialize it.
+ */
+export interface ISessionStore {
+  get(id: string): Promise<ISessionData | undefined>;
+  set(id: string, data: ISessionData, ttlMs: number): Promise<void>;
+  destroy(id: string): Promise<void>;
+  // Extends the lifetime without rewriting the data; `set` is used when missing
+  touch?(id: string, ttlMs: number): Promise<void>;
+}
+
+interface ISessionCookieOptions {
+  // Cookie name, `sid` for stored sessions and `session` for cookie sessions
+  name?: string;
+  // Attributes of the session cookie. Defaults to HttpOnly, SameSite=Lax and a Max-Age matching `ttlMs`.
+  cookie?: ICookieOptions;
+  // Idle lifetime, one day by default
+  ttlMs?: number;
+  // Refresh the cookie and the expiry on every response, not only when the data changes
+  rolling?: boolean;
+}
+
+export interface ISessionOptions extends ISessionCookieOptions {
+  // Defaults to an in-memory store, which only serves a single process
+  store?: ISessionStore;
+  // Save and send a cookie for new sessions that hold no data yet. Defaults to false.
+  saveUninitialized?: boolean;
+  generateId?: () => string;
+}
+
+export interface ICookieSessionOptions extends ISessionCookieOptions {
+  // Encryption secrets. The first encrypts, all of them decrypt, so keys can be rotated.
+  keys: string[];
+}
@@ -0,0 +1,23 @@
+export interface ISseOptions {
+  // Interval in ms between keep-alive comments, 0 disables them. Defaults to 15000.
+  heartbeat?: number;
+  // Reconnection delay in ms advertised to the client
+  retry?: number;
+  // Bytes allowed to queue up for a slow client before the stream is dropped. Defaults to 1 MiB.
+  maxBufferSize?: number;
+}
+
+export interface ISseStream {
+  // Value of the Last-Event-ID header sent by a reconnecting client
+  readonly lastEventId?: string;
+  readonly closed: boolean;
+
+  // Non-string data is serialized as JSON. Returns false once the stream is closed,
+  // which includes a client falling more than maxBufferSize behind.
+  send(event: string | undefined, data: unknown, id?: string): boolean;
+  comment(text?: string): void;
+  close(): void;
+
+  // Called once when the stream ends, including when the client disconnects
+  onClose(listener: () => void): void;
+}
@@ -0,0 +1,20 @@
+export interface IStaticOptions {
+  // Files tried when a directory is requested. Defaults to index.html; false disables it.
+  index?: string[] | false;
+  // File served for unknown extensionless paths, e.g. index.html for a single-page app
+  fallback?: string;
+  // Cache-Control max-age in seconds. Defaults to 0.
+  maxAge?: number;
+  // Adds `immutable` to Cache-Control, for fingerprinted assets
+  immutable?: boolean;
+  // Full Cache-Control value per file, overrides maxAge and immutable; undefined keeps the default
+  cacheControl?: (filePath: string) => string | undefined;
+  // How to treat files and folders starting with a dot. Defaults to ignore (404).
+  dotfiles?: 'allow' | 'deny' | 'ignore';
+  // Defaults to true
+  etag?: boolean;
+  // Defaults to true
+  lastModified?: boolean;
+  // Extra or overriding MIME types by extension, e.g. { '.webmanifest': 'application/manifest+json' }
+  mimeTypes?: Record<string, string>;
+}
@@ -0,0 +1,23 @@
+import type { SecureVersion } from 'tls';
+
+// PEM encoded key and certificate chain for one host
+export interface ITlsCredentials {
+  key: string | Buffer;
+  cert: string | Buffer;
+  // Passphrase of an encrypted key
+  passphrase?: string;
+  // Extra CA certificates to trust instead of the Mozilla defaults
+  ca?: string | Buffer | (string | Buffer)[];
+}
+
+/**
+ * TLS settings shared by HttpEngine and Http2Engine; setting `key` and `cert`
+ * turns TLS on. The default credentials answer clients that send no server
+ * name, or one without an `sni` entry.
+ */
+export interface ITlsOptions extends Partial<ITlsCredentials> {
+  // Credentials by server name. `*.example.com` matches a single label, e.g. api.example.com.
+  sni?: Record<string, ITlsCredentials>;
+  // Oldest TLS version accepted, TLSv1.2 by default
+  minVersion?: SecureVersion;
+}
@@ -0,0 +1,118 @@
+export type JsonSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'null'
+  | 'array'
+  | 'object';
+
+/**
+ * Subset of JSON Schema understood by the built-in validator. Declare schemas
+ * inline on a route (or with `as const`) so their types can be inferred.
+ */
+export interface IJsonSchema {
+  readonly type?: JsonSchemaType | readonly JsonSchemaType[];
+  readonly enum?: readonly unknown[];
+  readonly const?: unknown;
+  readonly default?: unknown;
+  readonly description?: string;
+
+  // Strings
+  readonly minLength?: number;
+  readonly maxLength?: number;
+  readonly pattern?: string;
+  readonly format?: 'email' | 'uri' | 'uuid' | 'date' | 'date-time';
+
+  // Numbers
+  readonly minimum?: number;
+  readonly maximum?: number;
+  readonly exclusiveMinimum?: number;
+  readonly exclusiveMaximum?: number;
+
+  // Arrays
+  readonly items?: IJsonSchema;
+  readonly minItems?: number;
+  readonly maxItems?: number;
+
+  // Objects
+  readonly properties?: { readonly [name: string]: IJsonSchema };
+  readonly required?: readonly string[];
+  readonly additionalProperties?: boolean;
+}
+
+export interface IValidationIssue {
+  // Location of the invalid value, e.g. body.address.city or query.page
+  path: string;
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { success: true; value: T }
+  | { success: false; issues: IValidationIssue[] };
+
+/**
+ * Adapter for any validation library. Return the (possibly transformed) value
+ * on success, or every issue found; issue paths are relative to the validated
+ * value and get prefixed with its location by the server.
+ */
+export interface IValidator<T = unknown> {
+  // JSON schema equivalent, used to document the route in OpenAPI
+  readonly jsonSchema?: IJsonSchema;
+  validate(input: unknown): ValidationResult<T> | Promise<ValidationResult<T>>;
+}
+
+export type Schema = IJsonSchema | IValidator;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type InferType<S, T> = T extends 'string'
+  ? string
+  : T extends 'number' | 'integer'
+    ? number
+    : T extends 'boolean'
+      ? boolean
+      : T extends 'null'
+        ? null
+        : T extends 'array'
+          ? S extends { items: infer I }
+            ? InferJsonSchema<I>[]
+            : unknown[]
+          : T extends 'object'
+            ? InferObject<S>
+            : unknown;
+
+// Properties listed in `required` or carrying a default are always present after validation
+type RequiredKeys<S, P> = {
+  [K in keyof P]: S extends { required: readonly (infer R)[] }
+    ? K extends R
+      ? K
+      : P[K] extends { default: unknown }
+        ? K
+        : never
+    : P[K] extends { default: unknown }
+      ? K
+      : never;
+}[keyof P];
+
+type InferObject<S> = S extends { properties: infer P }
+  ? Simplify<
+      { -readonly [K in RequiredKeys<S, P>]: InferJsonSchema<P[K]> } & {
+        -readonly [K in Exclude<keyof P, RequiredKeys<S, P>>]?: InferJsonSchema<P[K]>;
+      }
+    >
+  : Record<string, unknown>;
+
+// Static type of the values accepted by a JSON schema
+export type InferJsonSchema<S> = S extends { const: infer C }
+  ? C
+  : S extends { enum: readonly (infer E)[] }
+    ? E
+    : S extends { type: infer T }
+      ? T extends readonly (infer U)[]
+        ? InferType<S, U>
+        : InferType<S, T>
+      : unknown;
+
+// Static type of the values produced by a schema or validator
+export type InferSchema<S> = S extends IValidator<infer T> ? T : InferJsonSchema<S>;
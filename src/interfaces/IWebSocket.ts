@@ -0,0 +1,45 @@
+import type { IMiddleware } from './IMiddleware';
+import type { IRequest } from './IRequest';
+import type { IResponse } from './IResponse';
+
+export type WebSocketState = 'open' | 'closing' | 'closed';
+
+export interface IWebSocket {
+  // The upgrade request, after middlewares have run
+  readonly request: IRequest;
+  readonly state: WebSocketState;
+
+  // Strings are sent as text frames, Buffers as binary frames
+  send(data: string | Buffer): void;
+  ping(data?: Buffer): void;
+  close(code?: number, reason?: string): void;
+}
+
+export interface IWebSocketHandlers {
+  onOpen?(socket: IWebSocket): void | Promise<void>;
+  onMessage?(socket: IWebSocket, message: string | Buffer): void | Promise<void>;
+  onClose?(socket: IWebSocket, code: number, reason: string): void | Promise<void>;
+  // Largest accepted message in bytes after reassembling fragments, 1 MiB by default
+  maxMessageSize?: number;
+}
+
+export interface IWebSocketRoute extends IWebSocketHandlers {
+  kind: 'ws';
+  path: string;
+  middlewares?: IMiddleware[];
+  description?: string;
+  tags?: string[];
+  // Checked during the handshake, like the roles and scopes of HTTP routes
+  roles?: string[];
+  scopes?: string[];
+}
+
+/**
+ * Outcome of an upgrade request. When `handlers` is set the engine completes
+ * the handshake, adding any headers from `response`; otherwise it answers with
+ * `response` and drops the connection.
+ */
+export interface IWebSocketUpgrade {
+  handlers?: IWebSocketHandlers;
+  response: IResponse;
+}
@@ -1,7 +1,25 @@
+export * from './IAuth';
+export * from './IBodyParser';
+export * from './ICompression';
+export * from './ICookie';
+export * from './ICors';
 export * from './IEngine';
+export * from './IErrorFormatter';
+export * from './IInject';
+export * from './ILogger';
 export * from './IMiddleware';
+export * from './IOpenApi';
+export * from './IQuery';
+export * from './IRateLimit';
 export * from './IRequest';
+export * from './IRequestContext';
 export * from './IResponse';
 export * from './IRoute';
 export * from './IRouteGroup';
 export * from './IServer';
+export * from './ISession';
+export * from './ISseStream';
+export * from './IStatic';
+export * from './ITls';
+export * from './IValidator';
+export * from './IWebSocket';
@@ -0,0 +1,104 @@
+import type { Writable } from 'stream';
+import type { ILogger, LogFields, LogLevel } from '../interfaces/ILogger';
+
+const LEVELS: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity,
+};
+
+export interface JsonLoggerOptions {
+  // Entries below this level are dropped; `silent` drops everything
+  level?: LogLevel | 'silent';
+  // Defaults to stdout, with warnings and errors going to stderr
+  stream?: Writable;
+}
+
+/**
+ * Writes one JSON object per line: `time`, `level` and `message`, followed by
+ * the entry's fields. Error values are expanded so their stack survives.
+ */
+export class JsonLogger implements ILogger {
+  private readonly level: number;
+  private readonly stream?: Writable;
+
+  constructor(options: JsonLoggerOptions = {}) {
+    this.level = LEVELS[options.level ?? 'info'];
+    this.stream = options.stream;
+  }
+
+  public debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  public info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  public warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  public error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (LEVELS[level] < this.level) {
+      return;
+    }
+
+    const entry = { time: new Date().toISOString(), level, message, ...fields };
+    const line = this.stringify(entry) + '\n';
+    const stream = this.stream ?? (LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout);
+    stream.write(line);
+  }
+
+  // Logging must not throw: circular references are marked, anything else unserializable
+  // leaves the entry without its fields
+  private stringify(entry: { time: string; level: LogLevel; message: string }): string {
+    try {
+      const ancestors: unknown[] = [];
+      return JSON.stringify(entry, function (this: unknown, _key, value: unknown) {
+        // `this` is the object holding the current key, so the stack is the current path
+        while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) {
+          ancestors.pop();
+        }
+        if (ancestors.includes(value)) {
+          return '[Circular]';
+        }
+        const serialized = serialize(value);
+        if (typeof serialized === 'object' && serialized !== null) {
+          ancestors.push(serialized);
+        }
+        return serialized;
+      });
+    } catch (error: unknown) {
+      const { time, level, message } = entry;
+      return JSON.stringify({ time, level, message, logError: serialize(error) });
+    }
+  }
+}
+
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  return value;
+}
+
+function isLogLevel(value: string | undefined): value is LogLevel | 'silent' {
+  return value !== undefined && Object.prototype.hasOwnProperty.call(LEVELS, value);
+}
+
+// JSON logger honouring LOG_LEVEL; silent under NODE_ENV=test unless LOG_LEVEL says otherwise
+export function createDefaultLogger(): ILogger {
+  const { LOG_LEVEL, NODE_ENV } = process.env;
+  const level = isLogLevel(LOG_LEVEL) ? LOG_LEVEL : NODE_ENV === 'test' ? 'silent' : 'info';
+  return new JsonLogger({ level });
+}
@@ -0,0 +1,60 @@
+import type { ILogger, LogLevel } from '../interfaces/ILogger';
+import type { IMiddleware } from '../interfaces/IMiddleware';
+import type { IRequest } from '../interfaces/IRequest';
+import type { IResponse } from '../interfaces/IResponse';
+import { isStreamBody } from '../stream';
+import { createDefaultLogger } from './JsonLogger';
+
+export interface AccessLogOptions {
+  logger?: ILogger;
+  // Defaults to info
+  level?: LogLevel;
+}
+
+/**
+ * Logs one `request completed` entry per response, including 404s and error
+ * responses. Register it globally with `server.use`. Streamed bodies are
+ * logged when they start, so their size is only known from content-length.
+ */
+export function accessLog(options: AccessLogOptions = {}): IMiddleware {
+  const logger = options.logger ?? createDefaultLogger();
+  const level = options.level ?? 'info';
+
+  return {
+    async onFinish(request: IRequest, response: IResponse): Promise<void> {
+      const duration = request.receivedAt ? performance.now() - request.receivedAt : undefined;
+
+      logger[level]('request completed', {
+        requestId: request.id,
+        method: request.method,
+        path: request.path,
+        status: response.status,
+        duration: duration === undefined ? undefined : Math.round(duration * 1000) / 1000,
+        bytes: request.method === 'HEAD' ? 0 : responseSize(response),
+        remoteAddress: request.remoteAddress,
+      });
+    },
+  };
+}
+
+function responseSize(response: IResponse): number | undefined {
+  const contentLength = response.headers['content-length'];
+  if (contentLength !== undefined) {
+    return Number(contentLength);
+  }
+
+  const { body } = response;
+  if (body === undefined) {
+    return 0;
+  }
+  if (typeof body === 'string') {
+    return Buffer.byteLength(body);
+  }
+  if (Buffer.isBuffer(body)) {
+    return body.length;
+  }
+  if (isStreamBody(body)) {
+    return undefined;
+  }
+  return Buffer.byteLength(JSON.stringify(body));
+}
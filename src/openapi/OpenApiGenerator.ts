@@ -0,0 +1,208 @@
+import { STATUS_CODES } from 'http';
+import { hasAccessRequirements } from '../auth';
+import type {
+  IOpenApiDocument,
+  IOpenApiMediaType,
+  IOpenApiOperation,
+  IOpenApiOptions,
+  IOpenApiParameter,
+} from '../interfaces/IOpenApi';
+import type { IRoute } from '../interfaces/IRoute';
+import type { IJsonSchema, IValidator, Schema } from '../interfaces/IValidator';
+import { expandOptional, PathToken, tokenizePattern } from '../router';
+
+const DEFAULT_INFO = { title: 'API', version: '1.0.0' };
+
+// HTTP methods that OpenAPI path items can describe
+const OPERATION_METHODS = new Set([
+  'GET',
+  'PUT',
+  'POST',
+  'DELETE',
+  'OPTIONS',
+  'HEAD',
+  'PATCH',
+  'TRACE',
+]);
+
+/**
+ * Builds an OpenAPI 3.1 document from registered routes. Route schemas are
+ * JSON Schema already, so they are embedded as they are; validators only show
+ * up when they expose a `jsonSchema`.
+ */
+export class OpenApiGenerator {
+  private readonly options: IOpenApiOptions;
+
+  constructor(options: IOpenApiOptions = {}) {
+    this.options = options;
+  }
+
+  public generate(
+    routes: IRoute[],
+    tagDescriptions: Map<string, string> = new Map()
+  ): IOpenApiDocument {
+    const paths: IOpenApiDocument['paths'] = {};
+    const tags = new Set<string>();
+
+    for (const route of routes) {
+      if (!OPERATION_METHODS.has(route.method)) {
+        continue;
+      }
+
+      route.tags?.forEach(tag => tags.add(tag));
+
+      // Optional parameters have no OpenAPI equivalent, so each variant gets its own path
+      for (const tokens of expandOptional(tokenizePattern(route.path))) {
+        const path = this.formatPath(tokens);
+        paths[path] ??= {};
+        paths[path][route.method.toLowerCase()] = this.createOperation(route, tokens);
+      }
+    }
+
+    const document: IOpenApiDocument = {
+      openapi: '3.1.0',
+      info: this.options.info ?? DEFAULT_INFO,
+      paths,
+    };
+
+    if (this.options.servers) {
+      document.servers = this.options.servers;
+    }
+
+    if (tags.size > 0) {
+      document.tags = [...tags].sort().map(name => {
+        const description = tagDescriptions.get(name);
+        return description ? { name, description } : { name };
+      });
+    }
+
+    return document;
+  }
+
+  private createOperation(route: IRoute, tokens: PathToken[]): IOpenApiOperation {
+    const operation: IOpenApiOperation = { responses: this.createResponses(route) };
+
+    if (route.description) {
+      operation.description = route.description;
+    }
+    if (route.tags && route.tags.length > 0) {
+      operation.tags = route.tags;
+    }
+    if (route.roles && route.roles.length > 0) {
+      operation['x-roles'] = route.roles;
+    }
+    if (route.scopes && route.scopes.length > 0) {
+      operation['x-scopes'] = route.scopes;
+    }
+
+    const parameters = [
+      ...this.createPathParameters(route, tokens),
+      ...this.createParameters('query', route.schema?.query),
+      ...this.createParameters('header', route.schema?.headers),
+    ];
+    if (parameters.length > 0) {
+      operation.parameters = parameters;
+    }
+
+    if (route.schema?.body) {
+      operation.requestBody = {
+        required: true,
+        content: { 'application/json': { schema: this.toJsonSchema(route.schema.body) } },
+      };
+    }
+
+    return operation;
+  }
+
+  private createPathParameters(route: IRoute, tokens: PathToken[]): IOpenApiParameter[] {
+    const properties = this.toJsonSchema(route.schema?.params).properties ?? {};
+
+    return tokens.flatMap(token => {
+      if (token.type === 'static') {
+        return [];
+      }
+
+      const name = this.parameterName(token);
+      const fallback: IJsonSchema =
+        token.type === 'param' && token.source
+          ? { type: 'string', pattern: `^(?:${token.source})$` }
+          : { type: 'string' };
+
+      return [{ name, in: 'path', required: true, schema: properties[token.name] ?? fallback }];
+    });
+  }
+
+  private createParameters(location: 'query' | 'header', schema?: Schema): IOpenApiParameter[] {
+    const { properties = {}, required = [] } = this.toJsonSchema(schema);
+
+    return Object.entries(properties).map(([name, property]) => {
+      const parameter: IOpenApiParameter = {
+        name,
+        in: location,
+        required: required.includes(name),
+        schema: property,
+      };
+      if (property.description) {
+        parameter.description = property.description;
+      }
+      return parameter;
+    });
+  }
+
+  private createResponses(route: IRoute): IOpenApiOperation['responses'] {
+    const responses = this.createDeclaredResponses(route);
+
+    // Routes with access requirements can also answer 401 and 403
+    if (hasAccessRequirements(route)) {
+      responses['401'] ??= { description: STATUS_CODES[401]! };
+      responses['403'] ??= { description: STATUS_CODES[403]! };
+    }
+
+    return responses;
+  }
+
+  private createDeclaredResponses(route: IRoute): IOpenApiOperation['responses'] {
+    const entries = Object.entries(route.responses ?? {});
+    if (entries.length === 0) {
+      return { '200': { description: 'OK' } };
+    }
+
+    return Object.fromEntries(
+      entries.map(([status, response]) => {
+        const description = response.description ?? STATUS_CODES[Number(status)] ?? 'Response';
+        if (!response.schema) {
+          return [status, { description }];
+        }
+
+        const media: IOpenApiMediaType = { schema: this.toJsonSchema(response.schema) };
+        return [
+          status,
+          { description, content: { [response.contentType ?? 'application/json']: media } },
+        ];
+      })
+    );
+  }
+
+  // Validators without a JSON schema are documented as accepting anything
+  private toJsonSchema(schema?: Schema): IJsonSchema {
+    if (!schema) {
+      return {};
+    }
+    if (typeof (schema as IValidator).validate === 'function') {
+      return (schema as IValidator).jsonSchema ?? {};
+    }
+    return schema as IJsonSchema;
+  }
+
+  private formatPath(tokens: PathToken[]): string {
+    const segments = tokens.map(token =>
+      token.type === 'static' ? token.value : `{${this.parameterName(token)}}`
+    );
+    return '/' + segments.join('/');
+  }
+
+  // An unnamed catch-all is captured as params['*'], which is not a usable template name
+  private parameterName(token: Exclude<PathToken, { type: 'static' }>): string {
+    return token.name === '*' ? 'wildcard' : token.name;
+  }
+}
@@ -0,0 +1,174 @@
+import type {
+  IQueryParser,
+  IQueryParserOptions,
+  ParsedQuery,
+  QueryValue,
+} from '../interfaces/IQuery';
+
+// Keys that would reach Object.prototype through plain objects
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+const NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?$/;
+
+type Container = ParsedQuery | QueryValue[];
+
+/**
+ * Query string parser built on URLSearchParams. Supports repeated keys and
+ * `tag[]=a` as arrays and `filter[status]=open` as nested objects. When keys
+ * disagree on the shape of a value, e.g. `a=1&a[b]=2`, the first one wins.
+ */
+export class QueryParser implements IQueryParser {
+  private readonly arrays: boolean;
+  private readonly depth: number;
+  private readonly parameterLimit: number;
+  private readonly arrayLimit: number;
+  private readonly coerce: boolean;
+
+  constructor(options: IQueryParserOptions = {}) {
+    this.arrays = options.arrays ?? true;
+    this.depth = options.depth ?? 5;
+    this.parameterLimit = options.parameterLimit ?? 1000;
+    this.arrayLimit = options.arrayLimit ?? 100;
+    this.coerce = options.coerce ?? false;
+  }
+
+  public parse(search: string): ParsedQuery {
+    const query: ParsedQuery = {};
+    let count = 0;
+
+    for (const [key, value] of new URLSearchParams(search)) {
+      if (++count > this.parameterLimit) {
+        break;
+      }
+      this.assign(query, this.splitKey(key), this.coerceValue(value));
+    }
+
+    return this.compact(query) as ParsedQuery;
+  }
+
+  // `filter[tags][]` becomes ['filter', 'tags', '']; malformed brackets keep the key as it is
+  private splitKey(key: string): string[] {
+    const open = key.indexOf('[');
+    if (open <= 0 || this.depth === 0) {
+      return [key];
+    }
+
+    const segments = [key.slice(0, open)];
+    const bracket = /\[([^[\]]*)\]/y;
+    bracket.lastIndex = open;
+
+    let consumed = open;
+    let match: RegExpExecArray | null;
+    while (segments.length <= this.depth && (match = bracket.exec(key))) {
+      segments.push(match[1]);
+      consumed = bracket.lastIndex;
+    }
+
+    if (consumed < key.length) {
+      // Brackets past the depth limit stay together as one literal key
+      if (segments.length === 1 || key[consumed] !== '[') {
+        return [key];
+      }
+      segments.push(key.slice(consumed));
+    }
+
+    return segments;
+  }
+
+  private assign(query: ParsedQuery, path: string[], value: QueryValue): void {
+    if (path.some(segment => UNSAFE_KEYS.has(segment))) {
+      return;
+    }
+
+    let node: Container = query;
+    for (let i = 0; i < path.length - 1; i++) {
+      const existing = this.read(node, path[i]);
+      if (existing === undefined) {
+        const child: Container = this.isArrayKey(path[i + 1]) && this.arrays ? [] : {};
+        if (!this.write(node, path[i], child)) {
+          return;
+        }
+        node = child;
+      } else if (typeof existing === 'object') {
+        node = existing;
+      } else {
+        return;
+      }
+    }
+
+    this.setLeaf(node, path[path.length - 1], value);
+  }
+
+  private setLeaf(node: Container, key: string, value: QueryValue): void {
+    const existing = this.read(node, key);
+    if (existing === undefined) {
+      this.write(node, key, value);
+    } else if (!this.arrays || (typeof existing === 'object' && !Array.isArray(existing))) {
+      // Without arrays the first value wins; objects never take plain values
+    } else if (Array.isArray(existing)) {
+      existing.push(value);
+    } else {
+      this.write(node, key, [existing, value]);
+    }
+  }
+
+  private read(node: Container, key: string): QueryValue | undefined {
+    if (Array.isArray(node)) {
+      return key === '' ? undefined : node[Number(key)];
+    }
+    return Object.prototype.hasOwnProperty.call(node, key) ? node[key] : undefined;
+  }
+
+  // Returns false when the key does not fit the container, e.g. `a[]=1&a[x]=2`
+  private write(node: Container, key: string, value: QueryValue): boolean {
+    if (!Array.isArray(node)) {
+      node[key] = value;
+      return true;
+    }
+    if (key === '') {
+      node.push(value);
+      return true;
+    }
+    if (this.isIndex(key)) {
+      node[Number(key)] = value;
+      return true;
+    }
+    return false;
+  }
+
+  private isArrayKey(key: string): boolean {
+    return key === '' || this.isIndex(key);
+  }
+
+  private isIndex(key: string): boolean {
+    return /^\d+$/.test(key) && Number(key) <= this.arrayLimit;
+  }
+
+  // Indexed notation may leave holes, e.g. `a[2]=x` alone
+  private compact(value: QueryValue): QueryValue {
+    if (Array.isArray(value)) {
+      return value.filter(item => item !== undefined).map(item => this.compact(item));
+    }
+    if (typeof value === 'object') {
+      for (const key of Object.keys(value)) {
+        value[key] = this.compact(value[key]);
+      }
+    }
+    return value;
+  }
+
+  private coerceValue(value: string): QueryValue {
+    if (!this.coerce) {
+      return value;
+    }
+    if (value === 'true' || value === 'false') {
+      return value === 'true';
+    }
+    if (NUMBER.test(value)) {
+      const number = Number(value);
+      if (Number.isSafeInteger(number) || !Number.isInteger(number)) {
+        return number;
+      }
+    }
+    return value;
+  }
+}
@@ -0,0 +1,52 @@
+import type { IRateLimitStore, IRateLimitUpdate, RateLimitState } from '../interfaces/IRateLimit';
+
+interface Entry {
+  state: RateLimitState;
+  expiresAt: number;
+}
+
+/**
+ * Rate limit store for a single process. Updates run synchronously, so they
+ * are atomic without locking; expired keys are dropped as the map is swept.
+ */
+export class MemoryStore implements IRateLimitStore {
+  private entries = new Map<string, Entry>();
+  private writes = 0;
+
+  constructor(
+    private readonly now: () => number = Date.now,
+    // Number of writes between sweeps of expired keys
+    private readonly sweepInterval = 1000
+  ) {}
+
+  public async update(
+    key: string,
+    update: (state: RateLimitState | undefined) => IRateLimitUpdate
+  ): Promise<RateLimitState> {
+    const now = this.now();
+    const entry = this.entries.get(key);
+    const { state, ttlMs } = update(entry && entry.expiresAt > now ? entry.state : undefined);
+
+    this.entries.set(key, { state, expiresAt: now + ttlMs });
+    if (++this.writes % this.sweepInterval === 0) {
+      this.sweep(now);
+    }
+    return state;
+  }
+
+  public async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  private sweep(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
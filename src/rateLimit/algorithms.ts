@@ -0,0 +1,109 @@
+import type {
+  IRateLimitResult,
+  IRateLimitUpdate,
+  RateLimitAlgorithm,
+  RateLimitState,
+} from '../interfaces/IRateLimit';
+
+export interface IRateLimitDecision extends IRateLimitUpdate {
+  result: IRateLimitResult;
+}
+
+type Algorithm = (
+  state: RateLimitState | undefined,
+  limit: number,
+  windowMs: number,
+  now: number
+) => IRateLimitDecision;
+
+// Counts requests per window aligned to the clock; cheap but allows bursts at window edges
+const fixedWindow: Algorithm = (state, limit, windowMs, now) => {
+  const start = Math.floor(now / windowMs) * windowMs;
+  const count = state?.start === start ? state.count : 0;
+  const allowed = count < limit;
+  const used = allowed ? count + 1 : count;
+  const resetMs = start + windowMs - now;
+
+  return {
+    state: { start, count: used },
+    ttlMs: resetMs,
+    result: {
+      allowed,
+      limit,
+      remaining: limit - used,
+      resetMs,
+      retryAfterMs: allowed ? 0 : resetMs,
+    },
+  };
+};
+
+// Weighs the previous window by how much of it still overlaps the sliding window
+const slidingWindow: Algorithm = (state, limit, windowMs, now) => {
+  const start = Math.floor(now / windowMs) * windowMs;
+  let count = 0;
+  let previous = 0;
+  if (state?.start === start) {
+    count = state.count;
+    previous = state.previous;
+  } else if (state?.start === start - windowMs) {
+    previous = state.count;
+  }
+
+  const weight = 1 - (now - start) / windowMs;
+  const estimate = previous * weight + count;
+  const allowed = estimate + 1 <= limit;
+  if (allowed) {
+    count += 1;
+  }
+
+  const windowEnd = start + windowMs - now;
+  let retryAfterMs = 0;
+  if (!allowed) {
+    // Wait until the previous window has faded enough to leave room for one request,
+    // or for the next window when the current one alone is full
+    retryAfterMs =
+      count + 1 > limit || previous === 0
+        ? windowEnd
+        : Math.ceil((weight - (limit - 1 - count) / previous) * windowMs);
+  }
+
+  return {
+    state: { start, count, previous },
+    ttlMs: windowEnd + windowMs,
+    result: {
+      allowed,
+      limit,
+      remaining: Math.max(0, Math.floor(limit - previous * weight - count)),
+      resetMs: count > 0 ? windowEnd + windowMs : Math.ceil(weight * windowMs),
+      retryAfterMs,
+    },
+  };
+};
+
+// Refills `limit` tokens per window continuously; each request takes one
+const tokenBucket: Algorithm = (state, limit, windowMs, now) => {
+  const rate = limit / windowMs;
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  const available = state ? Math.min(limit, state.tokens + elapsed * rate) : limit;
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+  const resetMs = Math.ceil((limit - tokens) / rate);
+
+  return {
+    state: { tokens, updatedAt: now },
+    ttlMs: resetMs,
+    result: {
+      allowed,
+      limit,
+      remaining: Math.floor(tokens),
+      resetMs,
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / rate),
+    },
+  };
+};
+
+export const RATE_LIMIT_ALGORITHMS: Record<RateLimitAlgorithm, Algorithm> = {
+  'fixed-window': fixedWindow,
+  'sliding-window': slidingWindow,
+  'token-bucket': tokenBucket,
+};
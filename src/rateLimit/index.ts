@@ -0,0 +1,3 @@
+export * from './algorithms';
+export * from './MemoryStore';
+export * from './rateLimit';
@@ -0,0 +1,77 @@
+import { TooManyRequestsError } from '../errors';
+import { getHeader } from '../headers';
+import type { IMiddleware } from '../interfaces/IMiddleware';
+import type { IRateLimitOptions, IRateLimitResult, RateLimitKey } from '../interfaces/IRateLimit';
+import type { IRequest } from '../interfaces/IRequest';
+import type { IResponse } from '../interfaces/IResponse';
+import { RATE_LIMIT_ALGORITHMS } from './algorithms';
+import { MemoryStore } from './MemoryStore';
+
+/**
+ * Rate limit middleware. Register it with `server.use` for a global limit, or
+ * in the middlewares of a RouteGroup or route to limit only those; each call
+ * keeps its own counters. Refused requests get a 429 with Retry-After.
+ */
+export function rateLimit(options: IRateLimitOptions): IMiddleware {
+  const now = options.now ?? Date.now;
+  const store = options.store ?? new MemoryStore(now);
+  const algorithm = RATE_LIMIT_ALGORITHMS[options.algorithm ?? 'fixed-window'];
+  const prefix = options.prefix ?? 'rate-limit:';
+
+  return {
+    async before(request: IRequest, response: IResponse, next: () => void): Promise<void> {
+      if (await options.skip?.(request)) {
+        return next();
+      }
+
+      const key = await resolveKey(options.key ?? 'ip', request);
+      if (key === undefined) {
+        return next();
+      }
+
+      let result!: IRateLimitResult;
+      await store.update(prefix + key, state => {
+        const decision = algorithm(state, options.limit, options.windowMs, now());
+        result = decision.result;
+        return decision;
+      });
+
+      if (options.headers !== false) {
+        setRateLimitHeaders(response, result, options.windowMs);
+      }
+
+      if (!result.allowed) {
+        throw new TooManyRequestsError(options.message, {
+          headers: { 'retry-after': String(toSeconds(result.retryAfterMs)) },
+        });
+      }
+
+      return next();
+    },
+  };
+}
+
+async function resolveKey(key: RateLimitKey, request: IRequest): Promise<string | undefined> {
+  if (typeof key === 'function') {
+    return await key(request);
+  }
+
+  const address = request.remoteAddress ?? 'unknown';
+  return key === 'ip' ? address : (getHeader(request.headers, key.header) ?? address);
+}
+
+// Headers from the IETF RateLimit fields draft; times are in whole seconds
+function setRateLimitHeaders(
+  response: IResponse,
+  result: IRateLimitResult,
+  windowMs: number
+): void {
+  response.setHeader('ratelimit-policy', `${result.limit};w=${toSeconds(windowMs)}`);
+  response.setHeader('ratelimit-limit', String(result.limit));
+  response.setHeader('ratelimit-remaining', String(result.remaining));
+  response.setHeader('ratelimit-reset', String(toSeconds(result.resetMs)));
+}
+
+function toSeconds(ms: number): number {
+  return Math.max(1, Math.ceil(ms / 1000));
+}
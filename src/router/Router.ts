@@ -0,0 +1,211 @@
+import { expandOptional, formatTokens, PathToken, tokenizePattern } from './pattern';
+
+interface ParamChild<T> {
+  name: string;
+  pattern?: RegExp;
+  source?: string;
+  node: RouteNode<T>;
+}
+
+interface RouteNode<T> {
+  staticChildren: Map<string, RouteNode<T>>;
+  paramChildren: ParamChild<T>[];
+  wildcard?: { name: string; node: RouteNode<T> };
+  handlers: Map<string, T>;
+  pattern?: string;
+}
+
+export interface RouteMatch<T> {
+  // All handlers registered on the matched path, keyed by method
+  handlers: Map<string, T>;
+  // Values captured by parameter and wildcard segments
+  params: Record<string, string>;
+  // The registered pattern that matched, e.g. /users/:id
+  pattern: string;
+}
+
+/**
+ * Segment-based radix tree used to resolve request paths to route handlers.
+ *
+ * Supported pattern syntax:
+ * - `/users`            static segment
+ * - `/users/:id`        named parameter
+ * - `/users/:id?`       optional parameter
+ * - `/users/:id(\\d+)`  parameter constrained by a regular expression
+ * - `/files/*`          catch-all, captured as `params['*']`
+ * - `/files/*path`      named catch-all, captured as `params.path`
+ *
+ * When several patterns could match, static segments win over parameters and
+ * parameters win over catch-alls. Constrained parameters are tried before
+ * unconstrained ones.
+ */
+export class Router<T> {
+  private root: RouteNode<T> = this.createNode();
+  private _size = 0;
+
+  // Number of (method, pattern) pairs registered
+  get size(): number {
+    return this._size;
+  }
+
+  public add(method: string, path: string, handler: T): void {
+    for (const variant of expandOptional(tokenizePattern(path))) {
+      const node = this.insert(variant);
+      const pattern = formatTokens(variant);
+
+      if (node.handlers.has(method)) {
+        throw new Error(`Duplicate route detected: ${method}:${pattern}`);
+      }
+
+      node.handlers.set(method, handler);
+      node.pattern = pattern;
+      this._size++;
+    }
+  }
+
+  public find(path: string): RouteMatch<T> | undefined {
+    const segments = this.splitPath(path);
+    const params: Record<string, string> = {};
+    const node = this.matchNode(this.root, segments, 0, params);
+
+    if (!node) {
+      return undefined;
+    }
+
+    return { handlers: node.handlers, params, pattern: node.pattern ?? '/' };
+  }
+
+  public lookup(
+    method: string,
+    path: string
+  ): { handler: T; params: Record<string, string> } | undefined {
+    const match = this.find(path);
+    const handler = match?.handlers.get(method);
+
+    if (!match || handler === undefined) {
+      return undefined;
+    }
+
+    return { handler, params: match.params };
+  }
+
+  private createNode(): RouteNode<T> {
+    return { staticChildren: new Map(), paramChildren: [], handlers: new Map() };
+  }
+
+  private insert(tokens: PathToken[]): RouteNode<T> {
+    let node = this.root;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      if (token.type === 'static') {
+        let child = node.staticChildren.get(token.value);
+        if (!child) {
+          child = this.createNode();
+          node.staticChildren.set(token.value, child);
+        }
+        node = child;
+      } else if (token.type === 'param') {
+        let child = node.paramChildren.find(
+          p => p.name === token.name && p.source === token.source
+        );
+        if (!child) {
+          child = {
+            name: token.name,
+            pattern: token.pattern,
+            source: token.source,
+            node: this.createNode(),
+          };
+          node.paramChildren.push(child);
+          // Constrained parameters are more specific, so try them first
+          node.paramChildren.sort((a, b) => Number(!!b.pattern) - Number(!!a.pattern));
+        }
+        node = child.node;
+      } else {
+        if (i !== tokens.length - 1) {
+          throw new Error(`Catch-all segment must be the last segment: ${formatTokens(tokens)}`);
+        }
+        if (node.wildcard && node.wildcard.name !== token.name) {
+          throw new Error(
+            `Conflicting catch-all names "${node.wildcard.name}" and "${token.name}" at ${formatTokens(tokens)}`
+          );
+        }
+        node.wildcard ??= { name: token.name, node: this.createNode() };
+        node = node.wildcard.node;
+      }
+    }
+
+    return node;
+  }
+
+  private matchNode(
+    node: RouteNode<T>,
+    segments: string[],
+    index: number,
+    params: Record<string, string>
+  ): RouteNode<T> | undefined {
+    if (index === segments.length) {
+      if (node.handlers.size > 0) {
+        return node;
+      }
+
+      // A catch-all also matches an empty remainder
+      if (node.wildcard && node.wildcard.node.handlers.size > 0) {
+        params[node.wildcard.name] = '';
+        return node.wildcard.node;
+      }
+
+      return undefined;
+    }
+
+    const segment = segments[index];
+
+    // 1. Static segments
+    const staticChild = node.staticChildren.get(segment);
+    if (staticChild) {
+      const found = this.matchNode(staticChild, segments, index + 1, params);
+      if (found) {
+        return found;
+      }
+    }
+
+    // 2. Parameter segments
+    const value = this.decode(segment);
+    for (const child of node.paramChildren) {
+      if (child.pattern && !child.pattern.test(value)) {
+        continue;
+      }
+
+      params[child.name] = value;
+      const found = this.matchNode(child.node, segments, index + 1, params);
+      if (found) {
+        return found;
+      }
+      delete params[child.name];
+    }
+
+    // 3. Catch-all
+    if (node.wildcard && node.wildcard.node.handlers.size > 0) {
+      params[node.wildcard.name] = segments
+        .slice(index)
+        .map(s => this.decode(s))
+        .join('/');
+      return node.wildcard.node;
+    }
+
+    return undefined;
+  }
+
+  private splitPath(path: string): string[] {
+    return path.split('/').filter(segment => segment.length > 0);
+  }
+
+  private decode(segment: string): string {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  }
+}
@@ -0,0 +1,75 @@
+export type PathToken =
+  | { type: 'static'; value: string }
+  | { type: 'param'; name: string; pattern?: RegExp; source?: string; optional: boolean }
+  | { type: 'wildcard'; name: string };
+
+// Parses a route pattern such as /users/:id(\\d+)/*rest into tokens
+export function tokenizePattern(path: string): PathToken[] {
+  return splitPattern(path).map((segment): PathToken => {
+    if (segment.startsWith('*')) {
+      return { type: 'wildcard', name: segment.slice(1) || '*' };
+    }
+
+    if (segment.startsWith(':')) {
+      const match = /^:([A-Za-z0-9_$]+)(?:\((.+)\))?(\?)?$/.exec(segment);
+      if (!match) {
+        throw new Error(`Invalid route parameter "${segment}" in ${path}`);
+      }
+
+      const [, name, source, optional] = match;
+      return {
+        type: 'param',
+        name,
+        source,
+        pattern: source ? new RegExp(`^(?:${source})$`) : undefined,
+        optional: optional === '?',
+      };
+    }
+
+    return { type: 'static', value: segment };
+  });
+}
+
+// Expands optional parameters into every combination of present/absent segments
+export function expandOptional(tokens: PathToken[]): PathToken[][] {
+  let variants: PathToken[][] = [[]];
+
+  for (const token of tokens) {
+    const withToken = variants.map(v => [...v, token]);
+    variants = token.type === 'param' && token.optional ? [...variants, ...withToken] : withToken;
+  }
+
+  return variants;
+}
+
+export function formatTokens(tokens: PathToken[]): string {
+  const formatted = tokens.map(token => {
+    if (token.type === 'static') return token.value;
+    if (token.type === 'wildcard') return token.name === '*' ? '*' : `*${token.name}`;
+    return `:${token.name}${token.source ? `(${token.source})` : ''}`;
+  });
+
+  return '/' + formatted.join('/');
+}
+
+// Splits a route pattern on "/", ignoring slashes inside regex constraints
+function splitPattern(path: string): string[] {
+  const segments: string[] = [];
+  let current = '';
+  let depth = 0;
+
+  for (const char of path) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+
+    if (char === '/' && depth === 0) {
+      if (current) segments.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current) segments.push(current);
+  return segments;
+}
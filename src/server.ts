@@ -1,20 +1,123 @@
+import { authorize, hasAccessRequirements } from './auth';
+import { BodyParser, DEFAULT_BODY_LIMIT } from './body';
+import {
+  DEFAULT_REQUEST_ID_HEADER,
+  getRequestContext,
+  resolveRequestId,
+  runWithRequestContext,
+} from './context';
+import { CookieSigner, parseCookies } from './cookies';
+import {
+  HttpError,
+  MethodNotAllowedError,
+  NotFoundError,
+  problemDetailsFormatter,
+  ServiceUnavailableError,
+  toHttpError,
+} from './errors';
+import { HttpResponse } from './HttpResponse';
+import type { IPrincipal, PrincipalResolver } from './interfaces/IAuth';
+import type { IBodyParser } from './interfaces/IBodyParser';
+import type { ICookieSettings } from './interfaces/ICookie';
+import { LoopbackEngine } from './engines/LoopbackEngine';
 import { IEngine } from './interfaces/IEngine';
+import type { ErrorFormatter } from './interfaces/IErrorFormatter';
+import type { ILogger } from './interfaces/ILogger';
+import type { IInjectOptions, IInjectResponse } from './interfaces/IInject';
+import type { IOpenApiDocument, IOpenApiOptions } from './interfaces/IOpenApi';
+import type { IQueryParser, IQueryParserOptions } from './interfaces/IQuery';
 import { IMiddleware } from './interfaces/IMiddleware';
-import { IRequest, HttpMethod } from './interfaces/IRequest';
+import { HttpMethod, IRequest } from './interfaces/IRequest';
+import type { IRequestIdOptions } from './interfaces/IRequestContext';
 import type { IResponse } from './interfaces/IResponse';
-import { IRoute } from './interfaces/IRoute';
+import {
+  IRoute,
+  IRouteResult,
+  IRouteSchema,
+  RouteDefinition,
+  RouteHandlerResult,
+} from './interfaces/IRoute';
 import { IRouteGroup } from './interfaces/IRouteGroup';
 import { IServer } from './interfaces/IServer';
+import type { IWebSocketRoute, IWebSocketUpgrade } from './interfaces/IWebSocket';
+import { createDefaultLogger } from './logger';
+import { OpenApiGenerator } from './openapi';
+import { QueryParser } from './query';
+import { Router } from './router';
+import { RequestValidator } from './validation';
+import { discardStreamBody, isStreamBody } from './stream';
+
+export interface ServerOptions {
+  // Default maximum request body size in bytes, 1 MiB unless set
+  bodyLimit?: number;
+  // Body parsers tried in order against the request content-type
+  bodyParsers?: IBodyParser[];
+  // Milliseconds stop() waits for in-flight requests before destroying connections
+  shutdownTimeout?: number;
+  // Stop gracefully on these signals, or on SIGTERM and SIGINT when true
+  handleSignals?: boolean | NodeJS.Signals[];
+  // Writes error response bodies, RFC 7807 problem+json by default
+  errorFormatter?: ErrorFormatter;
+  // Hides unexposed error messages and stack traces. Defaults to NODE_ENV === 'production'.
+  production?: boolean;
+  // Receives server and engine logs; JSON to stdout by default, silent under NODE_ENV=test
+  logger?: ILogger;
+  // How request IDs are read, generated and echoed back
+  requestId?: IRequestIdOptions;
+  // Document metadata for `openapi()`; set `path` to also serve the document
+  openapi?: IOpenApiOptions;
+  // Keys for signed cookies
+  cookies?: ICookieSettings;
+  // Query string parsing limits and coercion, or a parser of your own
+  query?: IQueryParserOptions | IQueryParser;
+  // Finds the caller for route roles and scopes, `request.state.principal` by default
+  principal?: PrincipalResolver;
+}
+
+const DEFAULT_SHUTDOWN_TIMEOUT = 10000;
 
 export class Server implements IServer {
   private _engine: IEngine;
+  private _options: ServerOptions;
+  private _bodyParser: BodyParser;
+  private _logger: ILogger;
+  private _cookieSigner?: CookieSigner;
+  private _queryParser: IQueryParser;
   private _globalMiddlewares: IMiddleware[] = [];
   private _routes: IRoute[] = [];
+  private _router: Router<IRoute> = new Router();
+  private _validators = new Map<IRoute, RequestValidator>();
+  private _tagDescriptions = new Map<string, string>();
+  private _openApiRoute?: IRoute;
+  private _loopback?: LoopbackEngine;
+  private _webSocketRoutes: IWebSocketRoute[] = [];
+  private _webSocketRouter: Router<IWebSocketRoute> = new Router();
   private _isRunning: boolean = false;
+  private _isDraining: boolean = false;
+  private _stopping?: Promise<void>;
+  private _signalHandlers = new Map<NodeJS.Signals, () => void>();
 
-  constructor(engine: IEngine) {
+  constructor(engine: IEngine, options: ServerOptions = {}) {
     this._engine = engine;
+    this._options = options;
+    this._bodyParser = new BodyParser(options.bodyParsers);
+    this._logger = options.logger ?? createDefaultLogger();
+    this._queryParser = this.isQueryParser(options.query)
+      ? options.query
+      : new QueryParser(options.query);
+    if (options.cookies) {
+      this._cookieSigner = new CookieSigner(options.cookies.keys);
+    }
     this.setupEngineHandler();
+
+    if (options.openapi?.path) {
+      this._openApiRoute = {
+        method: 'GET',
+        path: options.openapi.path,
+        handler: () => this.openapi(),
+      };
+      this.addRoute(this._openApiRoute);
+    }
   }
 
   // Public readonly properties
@@ -22,6 +125,15 @@ export class Server implements IServer {
     return this._isRunning;
   }
 
+  public get isDraining(): boolean {
+    return this._isDraining;
+  }
+
+  // Ready to take traffic: listening and not shutting down
+  public get isReady(): boolean {
+    return this._isRunning && !this._isDraining;
+  }
+
   public get engine(): IEngine {
     return this._engine;
   }
@@ -32,25 +144,25 @@ export class Server implements IServer {
     return this;
   }
 
-  public route(routeInput: IRoute | IRoute[] | IRouteGroup): Server {
+  // The single-route overload infers handler request types from the route's schema
+  public route<const TSchema extends IRouteSchema>(route: IRoute<TSchema>): Server;
+  public route(routeInput: RouteDefinition | RouteDefinition[] | IRouteGroup): Server;
+  public route(routeInput: RouteDefinition | RouteDefinition[] | IRouteGroup): Server {
     if (this._isRunning) {
       throw new Error('Cannot add routes after server has started');
     }
 
     if (this.isRouteGroup(routeInput)) {
-      this._routes.push(...routeInput.getPrefixedRoutes());
+      // A group's description documents its tags
+      const { description } = routeInput;
+      if (description) {
+        routeInput.tags?.forEach(tag => this._tagDescriptions.set(tag, description));
+      }
+      routeInput.getPrefixedRoutes().forEach(route => this.addRoute(route));
     } else if (Array.isArray(routeInput)) {
-      routeInput.forEach(route => {
-        if (route.path === '') {
-          route.path = '/';
-        }
-      });
-      this._routes.push(...routeInput);
+      routeInput.forEach(route => this.addRoute(route));
     } else {
-      if (routeInput.path === '') {
-        routeInput.path = '/';
-      }
-      this._routes.push(routeInput);
+      this.addRoute(routeInput);
     }
 
     return this;
@@ -66,6 +178,28 @@ export class Server implements IServer {
     return this;
   }
 
+  // Runs a request through the full pipeline in memory, without the engine or a port
+  public inject<TBody = unknown>(options: IInjectOptions): Promise<IInjectResponse<TBody>> {
+    // A loopback server engine is reused so that stop() also drains injected requests
+    if (this._engine instanceof LoopbackEngine) {
+      return this._engine.inject(options) as Promise<IInjectResponse<TBody>>;
+    }
+
+    if (!this._loopback) {
+      this._loopback = new LoopbackEngine();
+      this._loopback.setQueryParser(this._queryParser);
+      this._loopback.setRequestHandler(request => this.processRequest(request));
+    }
+
+    return this._loopback.inject(options) as Promise<IInjectResponse<TBody>>;
+  }
+
+  // OpenAPI 3.1 document describing the registered HTTP routes
+  public openapi(): IOpenApiDocument {
+    const routes = this._routes.filter(route => route !== this._openApiRoute);
+    return new OpenApiGenerator(this._options.openapi).generate(routes, this._tagDescriptions);
+  }
+
   public async start(port: number, callback?: () => void): Promise<void> {
     if (this._isRunning) {
       throw new Error('Server is already running');
@@ -75,78 +209,394 @@ export class Server implements IServer {
 
     try {
       await this._engine.listen(port, callback);
-      console.log(`Server started on port ${port} using ${this._engine.protocol}`);
+      this._logger.info('Server started', { port, protocol: this._engine.protocol });
       for (const route of this._routes) {
-        console.log(`Registered route: [${route.method}] ${route.path}`);
+        this._logger.debug('Registered route', this.describeRoute(route.method, route));
       }
+      for (const route of this._webSocketRoutes) {
+        this._logger.debug('Registered route', this.describeRoute('WS', route));
+      }
+      this.registerSignalHandlers();
     } catch (error) {
       this._isRunning = false;
       throw error;
     }
   }
 
-  public async stop(): Promise<void> {
+  public async stop(options: { timeout?: number } = {}): Promise<void> {
+    // Concurrent callers share the drain already in flight
+    if (this._stopping) {
+      return this._stopping;
+    }
     if (!this._isRunning) {
       return;
     }
 
+    this._stopping = this.drain(
+      options.timeout ?? this._options.shutdownTimeout ?? DEFAULT_SHUTDOWN_TIMEOUT
+    );
     try {
-      await this._engine.close();
+      await this._stopping;
+    } finally {
+      this._stopping = undefined;
+    }
+  }
+
+  // Private methods
+  private async drain(timeout: number): Promise<void> {
+    this._isDraining = true;
+    this.removeSignalHandlers();
+
+    try {
+      await this._engine.close({ timeout });
       this._isRunning = false;
-      console.log('Server stopped');
+      this._logger.info('Server stopped');
     } catch (error) {
-      console.error('Error stopping server:', error);
+      this._logger.error('Error stopping server', { error });
       throw error;
+    } finally {
+      this._isDraining = false;
+    }
+  }
+
+  private registerSignalHandlers(): void {
+    const { handleSignals } = this._options;
+    if (!handleSignals) {
+      return;
+    }
+
+    const signals: NodeJS.Signals[] = Array.isArray(handleSignals)
+      ? handleSignals
+      : ['SIGTERM', 'SIGINT'];
+
+    for (const signal of signals) {
+      const handler = () => {
+        this._logger.info('Received signal, shutting down', { signal });
+        this.stop().catch(() => {
+          process.exitCode = 1;
+        });
+      };
+      process.once(signal, handler);
+      this._signalHandlers.set(signal, handler);
+    }
+  }
+
+  // Route listing entry; access requirements are only included when declared
+  private describeRoute(method: string, route: RouteDefinition): Record<string, unknown> {
+    const { path, roles, scopes } = route;
+    return hasAccessRequirements(route) ? { method, path, roles, scopes } : { method, path };
+  }
+
+  private removeSignalHandlers(): void {
+    this._signalHandlers.forEach((handler, signal) => process.off(signal, handler));
+    this._signalHandlers.clear();
+  }
+
+  private addRoute(route: RouteDefinition): void {
+    if (route.path === '') {
+      route.path = '/';
+    }
+
+    if ('kind' in route) {
+      this._webSocketRouter.add('WS', route.path, route);
+      this._webSocketRoutes.push(route);
+      return;
+    }
+
+    // Compile into the routing tree first so invalid or duplicate patterns are rejected
+    this._router.add(route.method, route.path, route);
+    this._routes.push(route);
+
+    if (route.schema) {
+      this._validators.set(route, new RequestValidator(route.schema));
     }
   }
 
-  // Private methods
   private setupEngineHandler(): void {
+    this._engine.setLogger?.(this._logger);
+    this._engine.setQueryParser?.(this._queryParser);
     this._engine.setRequestHandler(async (request: IRequest) => {
       return await this.processRequest(request);
     });
+    this._engine.setUpgradeHandler?.(async (request: IRequest) => {
+      return await this.processUpgrade(request);
+    });
+  }
+
+  // Runs global and route middlewares for a WebSocket handshake. The upgrade is
+  // accepted when the chain reaches the end without sending a response.
+  private processUpgrade(request: IRequest): Promise<IWebSocketUpgrade> {
+    return this.withRequestContext(request, async () => {
+      const { handlers, response } = await this.resolveUpgrade(request);
+      if (handlers) {
+        response.status = 101;
+      }
+
+      this.setRequestIdHeader(request, response);
+      response.finish();
+      await this.notifyFinish(request, response);
+      return { handlers, response };
+    });
+  }
+
+  private async resolveUpgrade(
+    request: IRequest
+  ): Promise<{ handlers?: IWebSocketRoute; response: HttpResponse }> {
+    // Handshakes that slip in on an open connection while draining are turned away
+    if (this._isDraining) {
+      return { response: await this.createErrorResponse(new ServiceUnavailableError(), request) };
+    }
+
+    const match = this._webSocketRouter.lookup('WS', request.path);
+
+    if (!match) {
+      return { response: await this.createErrorResponse(new NotFoundError(), request) };
+    }
+
+    const route = match.handler;
+    request.params = match.params;
+
+    let accepted = false;
+    let response: HttpResponse;
+    try {
+      response = await this.executeMiddlewareChain(
+        {
+          method: 'GET',
+          path: route.path,
+          middlewares: route.middlewares,
+          roles: route.roles,
+          scopes: route.scopes,
+          handler: () => {
+            accepted = true;
+          },
+        },
+        request,
+        undefined,
+        // A handshake has no body; its socket becomes the WebSocket
+        false
+      );
+    } catch (error: unknown) {
+      accepted = false;
+      response = await this.handleError(error, request);
+    }
+
+    // A socket opened once the drain began would keep the server alive until the deadline
+    if (accepted && !response.sent && this._isDraining) {
+      return { response: await this.createErrorResponse(new ServiceUnavailableError(), request) };
+    }
+
+    const handlers = accepted && !response.sent ? route : undefined;
+    return { handlers, response };
+  }
+
+  private processRequest(request: IRequest): Promise<IResponse> {
+    request.receivedAt ??= performance.now();
+
+    return this.withRequestContext(request, async () => {
+      // Requests that slip in on an open connection while draining are turned away
+      const response = this._isDraining
+        ? await this.createErrorResponse(new ServiceUnavailableError(), request)
+        : await this.dispatch(request);
+
+      // HEAD responses carry the headers of the equivalent GET, but no body
+      if (request.method === 'HEAD') {
+        this.stripBody(response);
+      }
+
+      this.setRequestIdHeader(request, response);
+      response.finish();
+      await this.notifyFinish(request, response);
+      return response;
+    });
+  }
+
+  // Assigns the request ID and cookies, and makes the request reachable through getRequestContext()
+  private withRequestContext<T>(request: IRequest, callback: () => Promise<T>): Promise<T> {
+    request.id = resolveRequestId(request, this._options.requestId);
+    request.state ??= {};
+    request.cookies = parseCookies(request.headers['cookie']);
+    request.signedCookies = this.verifyCookies(request.cookies);
+
+    return runWithRequestContext({ id: request.id, request, state: request.state }, callback);
+  }
+
+  private verifyCookies(cookies: Record<string, string>): Record<string, string> {
+    const verified: Record<string, string> = Object.create(null);
+    if (!this._cookieSigner) {
+      return verified;
+    }
+
+    Object.entries(cookies).forEach(([name, value]) => {
+      const original = this._cookieSigner!.unsign(name, value);
+      if (original !== undefined) {
+        verified[name] = original;
+      }
+    });
+    return verified;
+  }
+
+  private setRequestIdHeader(request: IRequest, response: HttpResponse): void {
+    const header = this._options.requestId?.header?.toLowerCase() ?? DEFAULT_REQUEST_ID_HEADER;
+    if (response.headers[header] === undefined) {
+      response.setHeader(header, request.id);
+    }
+  }
+
+  // Observers such as the access log must never break the response itself
+  private async notifyFinish(request: IRequest, response: IResponse): Promise<void> {
+    for (const middleware of this._globalMiddlewares) {
+      try {
+        await middleware.onFinish?.(request, response);
+      } catch (error: unknown) {
+        this._logger.error('onFinish hook failed', { error });
+      }
+    }
   }
 
-  private async processRequest(request: IRequest): Promise<IResponse> {
+  private async dispatch(request: IRequest): Promise<HttpResponse> {
+    let response: HttpResponse | undefined;
+
     try {
-      // Find matching route
-      const route = this.findRoute(request.method, request.path);
+      const route = this.resolveRoute(request);
 
-      if (!route) {
-        return this.createErrorResponse(404, 'Not Found');
+      // Lets middlewares such as CORS read route level settings
+      const context = getRequestContext();
+      if (context) {
+        context.route = route;
       }
 
       // Execute middleware chain + route handler
-      return await this.executeMiddlewareChain(route, request);
+      response = this.createResponse(request);
+      return await this.executeMiddlewareChain(route, request, response);
     } catch (error: unknown) {
-      return await this.handleError(error, request);
+      return await this.handleError(error, request, response);
     }
   }
 
-  private findRoute(method: HttpMethod, path: string): IRoute | undefined {
-    return this._routes.find(route => {
-      // Simple path matching - you'd want more sophisticated routing here
-      return route.method === method && this.pathMatches(route.path, path);
-    });
+  // Unmatched requests get a route that fails with 404 or 405, so the global
+  // middlewares still run and CORS headers reach these answers too
+  private resolveRoute(request: IRequest): IRoute {
+    const match = this._router.find(request.path);
+    if (!match) {
+      return this.createRejectingRoute(request, new NotFoundError());
+    }
+
+    const route = this.selectRoute(request.method, match.handlers);
+    if (!route) {
+      const [first] = match.handlers.values();
+      const error = new MethodNotAllowedError(this.allowedMethods(match.handlers));
+      return this.createRejectingRoute(request, error, first.cors);
+    }
+
+    request.params = match.params;
+    return route;
+  }
+
+  private createRejectingRoute(request: IRequest, error: HttpError, cors?: IRoute['cors']): IRoute {
+    return {
+      method: request.method,
+      path: request.path,
+      cors,
+      // Nothing will read the body of a request that is turned away
+      streamBody: true,
+      handler: () => {
+        throw error;
+      },
+    };
+  }
+
+  // Picks the route for a method, falling back to GET for HEAD and to an automatic OPTIONS answer
+  private selectRoute(method: HttpMethod, routes: Map<string, IRoute>): IRoute | undefined {
+    const route = routes.get(method);
+    if (route) {
+      return route;
+    }
+
+    if (method === 'HEAD') {
+      return routes.get('GET');
+    }
+
+    if (method === 'OPTIONS') {
+      const [first] = routes.values();
+      const allow = this.allowedMethods(routes).join(', ');
+
+      return {
+        method: 'OPTIONS',
+        path: first.path,
+        // Keep group middlewares and CORS settings so they also apply to the automatic answer
+        middlewares: first.middlewares,
+        cors: first.cors,
+        handler: (_req, res) => {
+          res.setStatus(204).setHeader('allow', allow).send();
+        },
+      };
+    }
+
+    return undefined;
   }
 
-  private pathMatches(routePath: string, requestPath: string): boolean {
-    // Basic exact match - enhance with parameter parsing
-    return routePath === requestPath;
+  private allowedMethods(routes: Map<string, IRoute>): string[] {
+    const methods = new Set(routes.keys());
+    if (methods.has('GET')) {
+      methods.add('HEAD');
+    }
+    methods.add('OPTIONS');
+    return [...methods];
+  }
+
+  private stripBody(response: HttpResponse): void {
+    const body = response.body;
+    const hasContentLength = Object.keys(response.headers).some(
+      name => name.toLowerCase() === 'content-length'
+    );
+
+    if (isStreamBody(body)) {
+      discardStreamBody(body);
+    } else if (body !== undefined && !hasContentLength) {
+      const payload =
+        typeof body === 'string' || Buffer.isBuffer(body) ? body : JSON.stringify(body);
+      response.setHeader('content-length', String(Buffer.byteLength(payload)));
+    }
+
+    response.body = undefined;
   }
 
-  private async executeMiddlewareChain(route: IRoute, request: IRequest): Promise<IResponse> {
+  private async executeMiddlewareChain(
+    route: IRoute,
+    request: IRequest,
+    response: HttpResponse = this.createResponse(request),
+    readBody = true
+  ): Promise<HttpResponse> {
     const allMiddlewares = [...this._globalMiddlewares, ...(route.middlewares ?? [])];
-    const response = this.createResponse();
+
+    // Middlewares whose `before` stage was reached, in order
+    const entered: IMiddleware[] = [];
 
     let index = 0;
     const next = async (): Promise<void> => {
       if (index >= allMiddlewares.length) {
-        await route.handler(request, response);
+        // Authorize once the middlewares had a chance to authenticate the request
+        if (hasAccessRequirements(route)) {
+          authorize(await this.resolvePrincipal(request), route);
+        }
+
+        // Read the body only now, so rate limits and auth can turn a request away before its payload is accepted
+        if (readBody) {
+          request.body = await this.readBody(route, request);
+        }
+
+        // Validate last so middlewares such as auth can reject the request first
+        await this._validators.get(route)?.validate(request);
+
+        const result = await route.handler(request, response);
+        if (result !== undefined && !response.sent) {
+          this.applyHandlerResult(result, response);
+        }
         return;
       }
 
       const middleware = allMiddlewares[index++];
+      entered.push(middleware);
 
       try {
         if (middleware.before) {
@@ -164,11 +614,106 @@ export class Server implements IServer {
     };
 
     await next();
+
+    // Onion model: unwind through the `after` hooks in reverse order. This also
+    // covers middlewares that returned early without calling next().
+    for (const middleware of entered.reverse()) {
+      if (middleware.after) {
+        await middleware.after(request, response, () => Promise.resolve());
+      }
+    }
+
     return response;
   }
 
-  private async handleError(error: unknown, request: IRequest): Promise<IResponse> {
-    console.error('Request processing error:', error);
+  // Streaming routes read the raw body themselves
+  private async readBody(route: IRoute, request: IRequest): Promise<unknown> {
+    if (route.streamBody) {
+      return request.stream;
+    }
+    return this._bodyParser.parse(
+      request,
+      route.bodyLimit ?? this._options.bodyLimit ?? DEFAULT_BODY_LIMIT
+    );
+  }
+
+  private async resolvePrincipal(request: IRequest): Promise<IPrincipal | undefined> {
+    const resolver = this._options.principal;
+    return resolver ? await resolver(request) : request.state.principal;
+  }
+
+  // Turns a value returned from a route handler into a response
+  private applyHandlerResult(result: RouteHandlerResult, response: HttpResponse): void {
+    if (!this.isRouteResult(result)) {
+      this.sendValue(result, response);
+      return;
+    }
+
+    Object.entries(result.headers ?? {}).forEach(([name, value]) => {
+      response.setHeader(name, value);
+    });
+    if (result.status !== undefined) {
+      response.setStatus(result.status);
+    }
+    this.sendValue(result.body, response);
+  }
+
+  private sendValue(value: unknown, response: HttpResponse): void {
+    if (typeof value === 'string') {
+      this.setDefaultContentType(response, 'text/plain; charset=utf-8');
+    } else if (Buffer.isBuffer(value) || isStreamBody(value)) {
+      this.setDefaultContentType(response, 'application/octet-stream');
+    } else if (value !== null && typeof value === 'object') {
+      this.setDefaultContentType(response, 'application/json');
+    }
+
+    response.send(value);
+  }
+
+  private setDefaultContentType(response: HttpResponse, contentType: string): void {
+    const hasContentType = Object.keys(response.headers).some(
+      name => name.toLowerCase() === 'content-type'
+    );
+    if (!hasContentType) {
+      response.setHeader('content-type', contentType);
+    }
+  }
+
+  // An IRouteResult only carries status/body/headers, so any other key means a plain object
+  private isRouteResult(result: unknown): result is IRouteResult {
+    if (result === null || typeof result !== 'object' || Array.isArray(result)) {
+      return false;
+    }
+
+    const keys = Object.keys(result);
+    const allowed = ['status', 'body', 'headers'];
+    const status = (result as IRouteResult).status;
+
+    return (
+      keys.length > 0 &&
+      keys.every(key => allowed.includes(key)) &&
+      (status === undefined || typeof status === 'number')
+    );
+  }
+
+  // `partial` is the response the failed chain was building; its headers carry over
+  private async handleError(
+    error: unknown,
+    request: IRequest,
+    partial?: HttpResponse
+  ): Promise<HttpResponse> {
+    const httpError = toHttpError(error);
+
+    // Client errors are expected; only log what points at a server problem
+    if (httpError.status >= 500) {
+      this._logger.error('Request processing error', {
+        requestId: request.id,
+        method: request.method,
+        path: request.path,
+        status: httpError.status,
+        error,
+      });
+    }
 
     // Try to find error handling middleware
     for (const middleware of this._globalMiddlewares) {
@@ -184,80 +729,56 @@ export class Server implements IServer {
     }
 
     // No error handler handled it, return default error response
-    return this.createErrorResponse(500, 'Internal Server Error');
+    return await this.createErrorResponse(httpError, request, partial?.rawHeaders);
   }
 
-  private createResponse(): IResponse {
-    let status: number | undefined; // Don't default to 200
-    let headers: Record<string, string> = {};
-    let body: unknown;
-    let sent: boolean = false;
-    let finished: boolean = false;
-
-    return {
-      get status(): number {
-        // If no status was explicitly set, default to 200 for successful responses
-        return status ?? 200;
-      },
-      get headers(): Record<string, string> {
-        return { ...headers };
-      },
-      get body(): unknown {
-        return body;
-      },
-      get sent(): boolean {
-        return sent;
-      },
-      get finished(): boolean {
-        return finished;
-      },
-
-      setStatus(code: number): IResponse {
-        if (sent) {
-          throw new Error('Cannot set status after response has been sent');
-        }
-        status = code;
-        return this;
-      },
-
-      setHeader(name: string, value: string): IResponse {
-        if (sent) {
-          throw new Error('Cannot set headers after response has been sent');
-        }
-        headers[name] = value;
-        return this;
-      },
+  private createResponse(request?: IRequest): HttpResponse {
+    return new HttpResponse(request, this._cookieSigner);
+  }
 
-      json(data: unknown): void {
-        this.setHeader('content-type', 'application/json');
-        this.send(data);
-      },
+  private async createErrorResponse(
+    error: HttpError,
+    request?: IRequest,
+    inherited: [string, string][] = []
+  ): Promise<HttpResponse> {
+    const response = this.createResponse(request);
+    response.setStatus(error.status);
+
+    // Keep headers such as CORS or cookies set before the failure, but not ones describing the body
+    inherited
+      .filter(([name]) => !['content-type', 'content-length'].includes(name.toLowerCase()))
+      .forEach(([name, value]) => response.appendHeader(name, value));
+    Object.entries(error.headers).forEach(([name, value]) => {
+      response.setHeader(name, value);
+    });
 
-      send(data?: unknown): void {
-        if (sent) {
-          throw new Error('Response has already been sent');
-        }
+    const formatter = this._options.errorFormatter ?? problemDetailsFormatter;
+    const production = this._options.production ?? process.env.NODE_ENV === 'production';
 
-        // If no status was set and we're sending data, assume 200
-        if (status === undefined) {
-          status = 200;
-        }
+    try {
+      await formatter(error, request, response, { production });
+    } catch (formatError: unknown) {
+      // A broken formatter must not take the error response down with it
+      this._logger.error('Error formatter failed', { error: formatError });
+      return this.createFallbackResponse(error);
+    }
 
-        body = data;
-        sent = true;
-        finished = true;
-      },
-    };
+    return response;
   }
 
-  private createErrorResponse(status: number, message: string): IResponse {
+  private createFallbackResponse(error: HttpError): HttpResponse {
     const response = this.createResponse();
-    response.setStatus(status);
-    response.json({ error: message });
+    response.setStatus(error.status);
+    response.setHeader('content-type', 'text/plain; charset=utf-8');
+    response.send(error.title);
     return response;
   }
 
   private isRouteGroup(input: any): input is IRouteGroup {
     return input && typeof input === 'object' && 'getPrefixedRoutes' in input;
   }
+
+  private isQueryParser(query: ServerOptions['query']): query is IQueryParser {
+    return typeof (query as IQueryParser | undefined)?.parse === 'function';
+  }
 }
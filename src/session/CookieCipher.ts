@@ -0,0 +1,49 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * AES-256-GCM encryption for cookie payloads. The authentication tag also
+ * protects the value against tampering, so no separate signature is needed.
+ */
+export class CookieCipher {
+  private readonly keys: Buffer[];
+
+  constructor(secrets: string[]) {
+    if (secrets.length === 0) {
+      throw new TypeError('CookieCipher needs at least one key');
+    }
+    this.keys = secrets.map(secret => createHash('sha256').update(secret).digest());
+  }
+
+  public seal(plaintext: string): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', this.keys[0], iv);
+    const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+  }
+
+  // Returns undefined when no key decrypts the value
+  public open(sealed: string): string | undefined {
+    const raw = Buffer.from(sealed, 'base64url');
+    if (raw.length <= IV_LENGTH + TAG_LENGTH) {
+      return undefined;
+    }
+
+    const iv = raw.subarray(0, IV_LENGTH);
+    const tag = raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+    const encrypted = raw.subarray(IV_LENGTH + TAG_LENGTH);
+
+    for (const key of this.keys) {
+      try {
+        const decipher = createDecipheriv('aes-256-gcm', key, iv);
+        decipher.setAuthTag(tag);
+        return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+      } catch {
+        // Wrong key or tampered value; try the next key
+      }
+    }
+    return undefined;
+  }
+}
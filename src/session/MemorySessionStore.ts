@@ -0,0 +1,64 @@
+import type { ISessionData, ISessionStore } from '../interfaces/ISession';
+
+interface Entry {
+  data: string;
+  expiresAt: number;
+}
+
+/**
+ * Session store for a single process. Data is kept as JSON, like a shared
+ * store would, so handlers cannot mutate a stored session by reference.
+ */
+export class MemorySessionStore implements ISessionStore {
+  private entries = new Map<string, Entry>();
+  private writes = 0;
+
+  constructor(
+    private readonly now: () => number = Date.now,
+    // Number of writes between sweeps of expired sessions
+    private readonly sweepInterval = 1000
+  ) {}
+
+  public async get(id: string): Promise<ISessionData | undefined> {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= this.now()) {
+      this.entries.delete(id);
+      return undefined;
+    }
+    return JSON.parse(entry.data);
+  }
+
+  public async set(id: string, data: ISessionData, ttlMs: number): Promise<void> {
+    this.entries.set(id, { data: JSON.stringify(data), expiresAt: this.now() + ttlMs });
+    if (++this.writes % this.sweepInterval === 0) {
+      this.sweep();
+    }
+  }
+
+  public async destroy(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+
+  public async touch(id: string, ttlMs: number): Promise<void> {
+    const entry = this.entries.get(id);
+    if (entry) {
+      entry.expiresAt = this.now() + ttlMs;
+    }
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  private sweep(): void {
+    const now = this.now();
+    for (const [id, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { randomBytes } from 'crypto';
+import type { ISession, ISessionData } from '../interfaces/ISession';
+
+// 192 random bits, URL and cookie safe
+export function generateSessionId(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+/**
+ * Session handed to handlers through `request.state.session`. Changes are
+ * tracked in memory and persisted by the middleware once the handler is done.
+ */
+export class Session implements ISession {
+  // ID the session was loaded with, still to be removed from the store after regenerate()
+  public readonly loadedId?: string;
+  private _id: string;
+  private _data: ISessionData;
+  private _changed = false;
+  private _destroyed = false;
+
+  constructor(
+    id: string,
+    data: ISessionData = {},
+    public readonly isNew = true,
+    private readonly generateId: () => string = generateSessionId
+  ) {
+    this._id = id;
+    this._data = { ...data };
+    this.loadedId = isNew ? undefined : id;
+  }
+
+  public get id(): string {
+    return this._id;
+  }
+
+  public get changed(): boolean {
+    return this._changed;
+  }
+
+  public get destroyed(): boolean {
+    return this._destroyed;
+  }
+
+  public get regenerated(): boolean {
+    return this.loadedId !== undefined && this.loadedId !== this._id;
+  }
+
+  public get<K extends keyof ISessionData>(key: K): ISessionData[K] | undefined {
+    return this._data[key];
+  }
+
+  public set<K extends keyof ISessionData>(key: K, value: ISessionData[K]): void {
+    this._data[key] = value;
+    this._changed = true;
+  }
+
+  public delete(key: keyof ISessionData): void {
+    delete this._data[key];
+    this._changed = true;
+  }
+
+  public clear(): void {
+    this._data = {};
+    this._changed = true;
+  }
+
+  public toJSON(): ISessionData {
+    return { ...this._data };
+  }
+
+  public regenerate(): void {
+    this._id = this.generateId();
+    this._changed = true;
+  }
+
+  public destroy(): void {
+    this._data = {};
+    this._destroyed = true;
+  }
+}
@@ -0,0 +1,4 @@
+export * from './CookieCipher';
+export * from './MemorySessionStore';
+export * from './Session';
+export * from './sessionMiddleware';
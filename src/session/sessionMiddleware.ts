@@ -0,0 +1,145 @@
+import type { ICookieOptions } from '../interfaces/ICookie';
+import type { IMiddleware } from '../interfaces/IMiddleware';
+import type { IRequest } from '../interfaces/IRequest';
+import type { IResponse } from '../interfaces/IResponse';
+import type { ICookieSessionOptions, ISessionData, ISessionOptions } from '../interfaces/ISession';
+import { CookieCipher } from './CookieCipher';
+import { MemorySessionStore } from './MemorySessionStore';
+import { generateSessionId, Session } from './Session';
+
+const DEFAULT_TTL = 24 * 60 * 60 * 1000;
+
+interface CookieSessionPayload {
+  id: string;
+  data: ISessionData;
+  expiresAt: number;
+}
+
+/**
+ * Server-side sessions: the cookie only carries the session ID and the data
+ * lives in the store. The session is available as `request.state.session`
+ * and is saved once the handler has finished; when the request fails,
+ * changes are not persisted.
+ */
+export function session(options: ISessionOptions = {}): IMiddleware {
+  const store = options.store ?? new MemorySessionStore();
+  const name = options.name ?? 'sid';
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL;
+  const cookie = cookieOptions(options.cookie, ttlMs);
+  const generateId = options.generateId ?? generateSessionId;
+
+  return {
+    async before(request: IRequest, _response: IResponse, next: () => void): Promise<void> {
+      const id = cookie.signed ? request.signedCookies[name] : request.cookies[name];
+      const data = id ? await store.get(id) : undefined;
+
+      request.state.session =
+        id && data
+          ? new Session(id, data, false, generateId)
+          : new Session(generateId(), {}, true, generateId);
+      return next();
+    },
+
+    async after(request: IRequest, response: IResponse): Promise<void> {
+      const current = request.state.session;
+      if (!(current instanceof Session)) {
+        return;
+      }
+
+      if (current.loadedId && (current.destroyed || current.regenerated)) {
+        await store.destroy(current.loadedId);
+      }
+
+      if (current.destroyed) {
+        if (!current.isNew) {
+          response.clearCookie(name, cookie);
+        }
+        return;
+      }
+
+      if (current.changed || (current.isNew && options.saveUninitialized)) {
+        await store.set(current.id, current.toJSON(), ttlMs);
+      } else if (!current.isNew && options.rolling) {
+        await (store.touch
+          ? store.touch(current.id, ttlMs)
+          : store.set(current.id, current.toJSON(), ttlMs));
+      } else {
+        return;
+      }
+
+      response.setCookie(name, current.id, cookie);
+    },
+  };
+}
+
+/**
+ * Sessions kept entirely in an encrypted cookie, so no store is needed. Keep
+ * the data small: browsers drop cookies larger than about 4 KB.
+ */
+export function cookieSession(options: ICookieSessionOptions): IMiddleware {
+  const cipher = new CookieCipher(options.keys);
+  const name = options.name ?? 'session';
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL;
+  const cookie = cookieOptions(options.cookie, ttlMs);
+
+  return {
+    async before(request: IRequest, _response: IResponse, next: () => void): Promise<void> {
+      const payload = readPayload(cipher, request.cookies[name]);
+
+      request.state.session = payload
+        ? new Session(payload.id, payload.data, false)
+        : new Session(generateSessionId(), {}, true);
+      return next();
+    },
+
+    async after(request: IRequest, response: IResponse): Promise<void> {
+      const current = request.state.session;
+      if (!(current instanceof Session)) {
+        return;
+      }
+
+      if (current.destroyed) {
+        if (!current.isNew) {
+          response.clearCookie(name, cookie);
+        }
+        return;
+      }
+
+      if (current.changed || (!current.isNew && options.rolling)) {
+        const payload: CookieSessionPayload = {
+          id: current.id,
+          data: current.toJSON(),
+          expiresAt: Date.now() + ttlMs,
+        };
+        response.setCookie(name, cipher.seal(JSON.stringify(payload)), cookie);
+      }
+    },
+  };
+}
+
+function cookieOptions(options: ICookieOptions = {}, ttlMs: number): ICookieOptions {
+  return {
+    httpOnly: true,
+    sameSite: 'lax',
+    maxAge: Math.floor(ttlMs / 1000),
+    ...options,
+  };
+}
+
+// Expired or undecryptable cookies start a new session
+function readPayload(
+  cipher: CookieCipher,
+  value: string | undefined
+): CookieSessionPayload | undefined {
+  const plaintext = value ? cipher.open(value) : undefined;
+  if (!plaintext) {
+    return undefined;
+  }
+
+  try {
+    const payload = JSON.parse(plaintext) as CookieSessionPayload;
+    return payload.expiresAt > Date.now() ? payload : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,112 @@
+import { PassThrough } from 'stream';
+import type { ISseOptions, ISseStream } from '../interfaces/ISseStream';
+
+const DEFAULT_HEARTBEAT = 15000;
+const DEFAULT_MAX_BUFFER_SIZE = 1024 * 1024;
+
+/**
+ * Writes text/event-stream frames into a PassThrough that the engine pipes to
+ * the client. When the client goes away the engine destroys the pipe, which
+ * closes this stream and stops the heartbeat. A client that stops reading is
+ * dropped once `maxBufferSize` bytes are waiting for it.
+ */
+export class SseStream implements ISseStream {
+  public readonly lastEventId?: string;
+  public readonly body: PassThrough = new PassThrough();
+
+  private readonly maxBufferSize: number;
+  private heartbeat?: NodeJS.Timeout;
+  private closeListeners: Array<() => void> = [];
+  private _closed: boolean = false;
+
+  constructor(lastEventId?: string, options: ISseOptions = {}) {
+    this.lastEventId = lastEventId;
+    this.maxBufferSize = options.maxBufferSize ?? DEFAULT_MAX_BUFFER_SIZE;
+
+    this.body.once('close', () => this.cleanup());
+    this.body.once('finish', () => this.cleanup());
+
+    // Open the stream right away so clients see the headers without waiting for an event
+    this.write(options.retry !== undefined ? `retry: ${options.retry}\n\n` : ':\n\n');
+
+    const interval = options.heartbeat ?? DEFAULT_HEARTBEAT;
+    if (interval > 0) {
+      this.heartbeat = setInterval(() => this.comment(), interval);
+      this.heartbeat.unref();
+    }
+  }
+
+  public get closed(): boolean {
+    return this._closed;
+  }
+
+  public send(event: string | undefined, data: unknown, id?: string): boolean {
+    let frame = '';
+
+    if (id !== undefined) {
+      frame += `id: ${this.sanitize(id)}\n`;
+    }
+    if (event !== undefined) {
+      frame += `event: ${this.sanitize(event)}\n`;
+    }
+
+    const payload = typeof data === 'string' ? data : JSON.stringify(data);
+    for (const line of (payload ?? '').split(/\r\n|\r|\n/)) {
+      frame += `data: ${line}\n`;
+    }
+
+    return this.write(frame + '\n');
+  }
+
+  public comment(text: string = ''): void {
+    this.write(`: ${this.sanitize(text)}\n\n`);
+  }
+
+  public close(): void {
+    if (!this._closed) {
+      this.body.end();
+    }
+  }
+
+  public onClose(listener: () => void): void {
+    if (this._closed) {
+      listener();
+    } else {
+      this.closeListeners.push(listener);
+    }
+  }
+
+  private write(chunk: string): boolean {
+    if (this._closed || this.body.writableEnded) {
+      return false;
+    }
+
+    this.body.write(chunk);
+
+    // Both halves of the PassThrough hold data the client has not taken yet
+    if (this.body.writableLength + this.body.readableLength > this.maxBufferSize) {
+      this.body.destroy();
+      this.cleanup();
+      return false;
+    }
+    return true;
+  }
+
+  // Field values must stay on one line
+  private sanitize(value: string): string {
+    return value.replace(/[\r\n]/g, ' ');
+  }
+
+  private cleanup(): void {
+    if (this._closed) {
+      return;
+    }
+
+    this._closed = true;
+    clearInterval(this.heartbeat);
+
+    const listeners = this.closeListeners;
+    this.closeListeners = [];
+    listeners.forEach(listener => listener());
+  }
+}
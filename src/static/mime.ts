@@ -0,0 +1,46 @@
+import { extname } from 'path';
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.css': 'text/css',
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.json': 'application/json',
+  '.map': 'application/json',
+  '.webmanifest': 'application/manifest+json',
+  '.xml': 'application/xml',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.md': 'text/markdown',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.wasm': 'application/wasm',
+};
+
+// Content type for a file name, with a UTF-8 charset for text formats
+export function lookupMimeType(fileName: string, overrides: Record<string, string> = {}): string {
+  const extension = extname(fileName).toLowerCase();
+  const type = overrides[extension] ?? MIME_TYPES[extension] ?? 'application/octet-stream';
+
+  const isText =
+    type.startsWith('text/') || type === 'application/javascript' || /[/+]json$/.test(type);
+  return isText ? `${type}; charset=utf-8` : type;
+}
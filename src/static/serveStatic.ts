@@ -0,0 +1,232 @@
+import { createReadStream, Stats } from 'fs';
+import { stat } from 'fs/promises';
+import { basename, extname, join, resolve, sep } from 'path';
+import { ForbiddenError, NotFoundError, RangeNotSatisfiableError } from '../errors';
+import type { IRequest } from '../interfaces/IRequest';
+import type { IResponse } from '../interfaces/IResponse';
+import type { IRoute } from '../interfaces/IRoute';
+import type { IStaticOptions } from '../interfaces/IStatic';
+import { lookupMimeType } from './mime';
+
+interface ResolvedFile {
+  path: string;
+  stats: Stats;
+}
+
+/**
+ * Route serving files below `root`. Mount it inside a RouteGroup to serve it
+ * under a prefix:
+ *
+ *   server.route(new RouteGroup('/assets', [serveStatic('./public')]));
+ *
+ * HEAD is answered through the automatic GET fallback.
+ */
+export function serveStatic(root: string, options: IStaticOptions = {}): IRoute {
+  const rootPath = resolve(root);
+
+  return {
+    method: 'GET',
+    path: '/*path',
+    description: `Static files from ${root}`,
+    handler: async (req, res) => {
+      const file =
+        (await resolveFile(rootPath, req.params.path ?? '', options)) ??
+        (await resolveFallback(rootPath, req.params.path ?? '', options));
+
+      if (!file) {
+        throw new NotFoundError();
+      }
+
+      sendFile(req, res, file, options);
+    },
+  };
+}
+
+async function resolveFile(
+  rootPath: string,
+  requestPath: string,
+  options: IStaticOptions
+): Promise<ResolvedFile | undefined> {
+  if (requestPath.includes('\0')) {
+    return undefined;
+  }
+
+  // Resolve against the root and make sure encoded ../ segments did not climb out of it
+  const filePath = resolve(rootPath, '.' + sep + requestPath);
+  if (filePath !== rootPath && !filePath.startsWith(rootPath + sep)) {
+    throw new ForbiddenError();
+  }
+
+  const segments = requestPath.split('/').filter(Boolean);
+  if (segments.some(segment => segment.startsWith('.'))) {
+    const dotfiles = options.dotfiles ?? 'ignore';
+    if (dotfiles === 'deny') {
+      throw new ForbiddenError();
+    }
+    if (dotfiles === 'ignore') {
+      return undefined;
+    }
+  }
+
+  const stats = await statOrUndefined(filePath);
+  if (stats?.isFile()) {
+    return { path: filePath, stats };
+  }
+
+  if (stats?.isDirectory() && options.index !== false) {
+    for (const index of options.index ?? ['index.html']) {
+      const indexPath = join(filePath, index);
+      const indexStats = await statOrUndefined(indexPath);
+      if (indexStats?.isFile()) {
+        return { path: indexPath, stats: indexStats };
+      }
+    }
+  }
+
+  return undefined;
+}
+
+// Client-side routes have no extension; missing assets such as app.js and dotfiles still 404
+async function resolveFallback(
+  rootPath: string,
+  requestPath: string,
+  options: IStaticOptions
+): Promise<ResolvedFile | undefined> {
+  const fileName = basename(requestPath);
+  if (!options.fallback || extname(fileName) !== '' || fileName.startsWith('.')) {
+    return undefined;
+  }
+
+  return resolveFile(rootPath, options.fallback, { ...options, fallback: undefined });
+}
+
+async function statOrUndefined(path: string): Promise<Stats | undefined> {
+  try {
+    return await stat(path);
+  } catch {
+    return undefined;
+  }
+}
+
+function sendFile(
+  req: IRequest,
+  res: IResponse,
+  file: ResolvedFile,
+  options: IStaticOptions
+): void {
+  const { size, mtime } = file.stats;
+  const etag = options.etag === false ? undefined : createETag(file.stats);
+  const lastModified = options.lastModified === false ? undefined : mtime.toUTCString();
+
+  res.setHeader('cache-control', cacheControl(file.path, options));
+  res.setHeader('accept-ranges', 'bytes');
+  if (etag) res.setHeader('etag', etag);
+  if (lastModified) res.setHeader('last-modified', lastModified);
+
+  if (isNotModified(req, etag, mtime)) {
+    res.setStatus(304).send();
+    return;
+  }
+
+  res.setHeader('content-type', lookupMimeType(basename(file.path), options.mimeTypes));
+
+  const range = parseRange(req, size, etag, mtime);
+  if (range) {
+    const { start, end } = range;
+    res.setStatus(206);
+    res.setHeader('content-range', `bytes ${start}-${end}/${size}`);
+    res.setHeader('content-length', String(end - start + 1));
+    res.send(createReadStream(file.path, { start, end }));
+    return;
+  }
+
+  res.setHeader('content-length', String(size));
+  res.send(size === 0 ? Buffer.alloc(0) : createReadStream(file.path));
+}
+
+// Validator from size and modification time, cheap enough to skip hashing
+function createETag(stats: Stats): string {
+  return `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+}
+
+function cacheControl(filePath: string, options: IStaticOptions): string {
+  const custom = options.cacheControl?.(filePath);
+  if (custom !== undefined) {
+    return custom;
+  }
+
+  const value = `public, max-age=${options.maxAge ?? 0}`;
+  return options.immutable ? `${value}, immutable` : value;
+}
+
+// If-None-Match takes precedence; If-Modified-Since only applies without it
+function isNotModified(req: IRequest, etag: string | undefined, mtime: Date): boolean {
+  const ifNoneMatch = req.headers['if-none-match'];
+  if (ifNoneMatch !== undefined) {
+    return etag !== undefined && matchesETag(ifNoneMatch, etag);
+  }
+
+  const ifModifiedSince = Date.parse(req.headers['if-modified-since'] ?? '');
+  // HTTP dates have second precision
+  return (
+    !Number.isNaN(ifModifiedSince) && Math.floor(mtime.getTime() / 1000) * 1000 <= ifModifiedSince
+  );
+}
+
+function matchesETag(header: string, etag: string): boolean {
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  return header.split(',').some(tag => tag.trim() === '*' || opaque(tag) === opaque(etag));
+}
+
+/**
+ * Single byte range from the Range header. Multiple ranges, malformed headers
+ * and a stale If-Range all fall back to the full file.
+ */
+function parseRange(
+  req: IRequest,
+  size: number,
+  etag: string | undefined,
+  mtime: Date
+): { start: number; end: number } | undefined {
+  const header = req.headers['range'];
+  if (!header || req.method !== 'GET') {
+    return undefined;
+  }
+
+  const ifRange = req.headers['if-range'];
+  if (ifRange !== undefined) {
+    // If-Range needs a strong match: an exact ETag or the exact modification date
+    const fresh = ifRange.trim().startsWith('"')
+      ? ifRange.trim() === etag
+      : Date.parse(ifRange) >= Math.floor(mtime.getTime() / 1000) * 1000;
+    if (!fresh) {
+      return undefined;
+    }
+  }
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return undefined;
+  }
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    start = Math.max(size - Number(match[2]), 0);
+    end = Number(match[2]) === 0 ? -1 : size - 1;
+  } else {
+    start = Number(match[1]);
+    if (match[2] !== '' && Number(match[2]) < start) {
+      // Invalid range spec, which the spec says to ignore
+      return undefined;
+    }
+    end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+
+  if (start >= size || end < start) {
+    throw new RangeNotSatisfiableError(size);
+  }
+
+  return { start, end };
+}
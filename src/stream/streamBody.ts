@@ -0,0 +1,49 @@
+import { Readable } from 'stream';
+import type { ReadableStream } from 'stream/web';
+import type { StreamBody } from '../interfaces/IResponse';
+
+export function isWebStream(body: unknown): body is ReadableStream {
+  return (
+    typeof body === 'object' &&
+    body !== null &&
+    typeof (body as ReadableStream).getReader === 'function'
+  );
+}
+
+export function isStreamBody(body: unknown): body is StreamBody {
+  if (body instanceof Readable || isWebStream(body)) {
+    return true;
+  }
+
+  return (
+    typeof body === 'object' &&
+    body !== null &&
+    !Buffer.isBuffer(body) &&
+    typeof (body as AsyncIterable<unknown>)[Symbol.asyncIterator] === 'function'
+  );
+}
+
+// Normalizes any supported stream body into a Node Readable for piping
+export function toReadable(body: StreamBody): Readable {
+  if (body instanceof Readable) {
+    return body;
+  }
+
+  if (isWebStream(body)) {
+    return Readable.fromWeb(body);
+  }
+
+  return Readable.from(body, { objectMode: false });
+}
+
+// Releases a stream body that will never be consumed, e.g. for HEAD requests
+export function discardStreamBody(body: StreamBody): void {
+  if (body instanceof Readable) {
+    body.destroy();
+  } else if (isWebStream(body)) {
+    body.cancel().catch(() => undefined);
+  } else {
+    const iterator = body[Symbol.asyncIterator]();
+    iterator.return?.().catch(() => undefined);
+  }
+}
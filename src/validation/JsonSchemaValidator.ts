@@ -0,0 +1,255 @@
+import type {
+  IJsonSchema,
+  InferJsonSchema,
+  IValidationIssue,
+  IValidator,
+  JsonSchemaType,
+  ValidationResult,
+} from '../interfaces/IValidator';
+
+export interface JsonSchemaValidatorOptions {
+  // Convert strings to the declared number/boolean/array types, for query, params and headers
+  coerce?: boolean;
+}
+
+const FORMATS: Record<NonNullable<IJsonSchema['format']>, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-z][a-z0-9+.-]*:[^\s]*$/i,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/,
+};
+
+/**
+ * Validates values against the IJsonSchema subset. Every issue is collected
+ * rather than stopping at the first one, and defaults are filled in.
+ */
+export class JsonSchemaValidator<S extends IJsonSchema = IJsonSchema> implements IValidator<
+  InferJsonSchema<S>
+> {
+  private readonly schema: S;
+  private readonly coerce: boolean;
+  private readonly patterns = new Map<string, RegExp>();
+
+  constructor(schema: S, options: JsonSchemaValidatorOptions = {}) {
+    this.schema = schema;
+    this.coerce = options.coerce ?? false;
+  }
+
+  public validate(input: unknown): ValidationResult<InferJsonSchema<S>> {
+    const issues: IValidationIssue[] = [];
+    const value = this.check(this.schema, input, '', issues);
+
+    if (issues.length > 0) {
+      return { success: false, issues };
+    }
+
+    return { success: true, value: value as InferJsonSchema<S> };
+  }
+
+  private check(
+    schema: IJsonSchema,
+    input: unknown,
+    path: string,
+    issues: IValidationIssue[]
+  ): unknown {
+    let value = input;
+
+    if (schema.type !== undefined) {
+      const types = typeof schema.type === 'string' ? [schema.type] : schema.type;
+      if (this.coerce) {
+        value = this.coerceValue(value, types);
+      }
+
+      if (!types.some(type => this.isType(value, type))) {
+        issues.push({ path, message: `must be ${types.join(' or ')}` });
+        return value;
+      }
+    }
+
+    if (schema.const !== undefined && !this.isEqual(value, schema.const)) {
+      issues.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+    }
+
+    if (schema.enum && !schema.enum.some(option => this.isEqual(value, option))) {
+      const options = schema.enum.map(option => JSON.stringify(option)).join(', ');
+      issues.push({ path, message: `must be one of ${options}` });
+    }
+
+    if (typeof value === 'string') {
+      this.checkString(schema, value, path, issues);
+    } else if (typeof value === 'number') {
+      this.checkNumber(schema, value, path, issues);
+    } else if (Array.isArray(value)) {
+      value = this.checkArray(schema, value, path, issues);
+    } else if (this.isObject(value)) {
+      value = this.checkObject(schema, value, path, issues);
+    }
+
+    return value;
+  }
+
+  private checkString(
+    schema: IJsonSchema,
+    value: string,
+    path: string,
+    issues: IValidationIssue[]
+  ): void {
+    // Length in code points, as JSON Schema defines it
+    const length = [...value].length;
+
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      issues.push({ path, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      issues.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && !this.compile(schema.pattern).test(value)) {
+      issues.push({ path, message: `must match pattern ${schema.pattern}` });
+    }
+    if (schema.format !== undefined && !FORMATS[schema.format].test(value)) {
+      issues.push({ path, message: `must be a valid ${schema.format}` });
+    }
+  }
+
+  private checkNumber(
+    schema: IJsonSchema,
+    value: number,
+    path: string,
+    issues: IValidationIssue[]
+  ): void {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      issues.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      issues.push({ path, message: `must be < ${schema.exclusiveMaximum}` });
+    }
+  }
+
+  private checkArray(
+    schema: IJsonSchema,
+    value: unknown[],
+    path: string,
+    issues: IValidationIssue[]
+  ): unknown[] {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `must have at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path, message: `must have at most ${schema.maxItems} items` });
+    }
+
+    const items = schema.items;
+    if (!items) {
+      return value;
+    }
+
+    return value.map((item, index) => this.check(items, item, this.join(path, index), issues));
+  }
+
+  private checkObject(
+    schema: IJsonSchema,
+    value: Record<string, unknown>,
+    path: string,
+    issues: IValidationIssue[]
+  ): Record<string, unknown> {
+    const properties = schema.properties ?? {};
+    const result: Record<string, unknown> = { ...value };
+
+    for (const name of schema.required ?? []) {
+      if (value[name] === undefined && properties[name]?.default === undefined) {
+        issues.push({ path: this.join(path, name), message: 'is required' });
+      }
+    }
+
+    for (const [name, property] of Object.entries(properties)) {
+      if (value[name] !== undefined) {
+        result[name] = this.check(property, value[name], this.join(path, name), issues);
+      } else if (property.default !== undefined) {
+        result[name] = structuredClone(property.default);
+      }
+    }
+
+    if (schema.additionalProperties === false) {
+      for (const name of Object.keys(value)) {
+        // An own-property check, so names like `constructor` are not found on Object.prototype
+        if (!Object.prototype.hasOwnProperty.call(properties, name)) {
+          issues.push({ path: this.join(path, name), message: 'is not allowed' });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  // Strings from the URL or headers are converted to the first type they fit
+  private coerceValue(value: unknown, types: readonly JsonSchemaType[]): unknown {
+    if (types.includes('array') && !Array.isArray(value) && value !== undefined) {
+      return [value];
+    }
+    if (typeof value !== 'string' || types.includes('string')) {
+      return value;
+    }
+
+    for (const type of types) {
+      if ((type === 'number' || type === 'integer') && value.trim() !== '') {
+        const number = Number(value);
+        if (!Number.isNaN(number)) return number;
+      }
+      if (type === 'boolean' && (value === 'true' || value === 'false')) {
+        return value === 'true';
+      }
+      if (type === 'null' && value === '') {
+        return null;
+      }
+    }
+
+    return value;
+  }
+
+  private isType(value: unknown, type: JsonSchemaType): boolean {
+    switch (type) {
+      case 'string':
+        return typeof value === 'string';
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value);
+      case 'integer':
+        return Number.isInteger(value);
+      case 'boolean':
+        return typeof value === 'boolean';
+      case 'null':
+        return value === null;
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return this.isObject(value);
+    }
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private isEqual(a: unknown, b: unknown): boolean {
+    return a === b || JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  private compile(pattern: string): RegExp {
+    let regex = this.patterns.get(pattern);
+    if (!regex) {
+      regex = new RegExp(pattern, 'u');
+      this.patterns.set(pattern, regex);
+    }
+    return regex;
+  }
+
+  private join(path: string, key: string | number): string {
+    return path ? `${path}.${key}` : String(key);
+  }
+}
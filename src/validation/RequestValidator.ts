@@ -0,0 +1,69 @@
+import { ValidationError } from '../errors';
+import { createRequestHeaders, HttpHeaders } from '../headers';
+import type { IRequest } from '../interfaces/IRequest';
+import type { IRouteSchema } from '../interfaces/IRoute';
+import type { IValidationIssue, IValidator, Schema } from '../interfaces/IValidator';
+import { JsonSchemaValidator } from './JsonSchemaValidator';
+
+type RequestPart = keyof IRouteSchema;
+
+const PARTS: RequestPart[] = ['params', 'query', 'headers', 'body'];
+
+/**
+ * Checks a request against a route's schemas. All parts are validated so the
+ * client gets every issue at once; validated values replace the raw ones.
+ */
+export class RequestValidator {
+  private readonly validators: [RequestPart, IValidator][] = [];
+
+  constructor(schema: IRouteSchema) {
+    for (const part of PARTS) {
+      const definition = schema[part];
+      if (definition) {
+        // Everything but the body arrives as strings, so let JSON schemas coerce them
+        this.validators.push([part, this.toValidator(definition, part !== 'body')]);
+      }
+    }
+  }
+
+  public async validate(request: IRequest): Promise<void> {
+    const issues: IValidationIssue[] = [];
+    const values: Partial<Record<RequestPart, unknown>> = {};
+
+    for (const [part, validator] of this.validators) {
+      const result = await validator.validate(request[part]);
+
+      if (result.success) {
+        values[part] = result.value;
+      } else {
+        issues.push(
+          ...result.issues.map(issue => ({
+            ...issue,
+            path: issue.path ? `${part}.${issue.path}` : part,
+          }))
+        );
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new ValidationError(issues);
+    }
+
+    if (values.headers) {
+      // Keep getAll() and raw() on the validated header record
+      values.headers = createRequestHeaders(
+        new HttpHeaders(request.headers.raw()),
+        values.headers as object
+      );
+    }
+    Object.assign(request, values);
+  }
+
+  private toValidator(schema: Schema, coerce: boolean): IValidator {
+    return this.isValidator(schema) ? schema : new JsonSchemaValidator(schema, { coerce });
+  }
+
+  private isValidator(schema: Schema): schema is IValidator {
+    return typeof (schema as IValidator).validate === 'function';
+  }
+}
@@ -0,0 +1,8 @@
+import type { IRoute, IRouteSchema } from '../interfaces/IRoute';
+
+// Infers handler request types for routes declared outside `server.route`, e.g. in groups
+export function defineRoute<const TSchema extends IRouteSchema>(
+  route: IRoute<TSchema>
+): IRoute<TSchema> {
+  return route;
+}
@@ -0,0 +1,3 @@
+export * from './defineRoute';
+export * from './JsonSchemaValidator';
+export * from './RequestValidator';
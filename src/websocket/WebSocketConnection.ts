@@ -0,0 +1,281 @@
+import type { Duplex } from 'stream';
+import type { ILogger } from '../interfaces/ILogger';
+import type { IRequest } from '../interfaces/IRequest';
+import type { IWebSocket, IWebSocketHandlers, WebSocketState } from '../interfaces/IWebSocket';
+import { createDefaultLogger } from '../logger';
+import {
+  encodeFrame,
+  FrameParser,
+  isControlOpcode,
+  IWebSocketFrame,
+  Opcode,
+  WebSocketProtocolError,
+} from './frame';
+
+// 1 MiB
+export const DEFAULT_MAX_MESSAGE_SIZE = 1024 * 1024;
+
+// How long to wait for the peer to acknowledge a close frame
+const CLOSE_TIMEOUT = 5000;
+
+/**
+ * Server side of an upgraded RFC 6455 connection: reassembles fragmented
+ * messages, answers pings and runs the close handshake on top of a raw socket.
+ */
+export class WebSocketConnection implements IWebSocket {
+  public readonly request: IRequest;
+
+  private readonly socket: Duplex;
+  private readonly handlers: IWebSocketHandlers;
+  private readonly maxMessageSize: number;
+  private readonly parser: FrameParser;
+  private readonly logger: ILogger;
+
+  private _state: WebSocketState = 'open';
+  private fragments: Buffer[] = [];
+  private fragmentsSize = 0;
+  private fragmentOpcode?: number;
+  private closeCode = 1006;
+  private closeReason = '';
+  private closeTimer?: NodeJS.Timeout;
+  private closeNotified = false;
+
+  constructor(
+    socket: Duplex,
+    request: IRequest,
+    handlers: IWebSocketHandlers,
+    head?: Buffer,
+    logger: ILogger = createDefaultLogger()
+  ) {
+    this.socket = socket;
+    this.logger = logger;
+    this.request = request;
+    this.handlers = handlers;
+    this.maxMessageSize = handlers.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE;
+    this.parser = new FrameParser(this.maxMessageSize);
+
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    // The HTTP server keeps sockets half-open, so finish our side when the peer hangs up
+    socket.on('end', () => socket.end());
+    socket.on('close', () => this.handleSocketClose());
+    socket.on('error', () => socket.destroy());
+
+    void this.invoke(() => this.handlers.onOpen?.(this));
+
+    if (head && head.length > 0) {
+      this.receive(head);
+    }
+  }
+
+  public get state(): WebSocketState {
+    return this._state;
+  }
+
+  public send(data: string | Buffer): void {
+    if (this._state !== 'open') {
+      throw new Error('WebSocket is not open');
+    }
+
+    if (typeof data === 'string') {
+      this.socket.write(encodeFrame(Opcode.Text, Buffer.from(data, 'utf8')));
+    } else {
+      this.socket.write(encodeFrame(Opcode.Binary, data));
+    }
+  }
+
+  public ping(data: Buffer = Buffer.alloc(0)): void {
+    if (this._state === 'open') {
+      this.socket.write(encodeFrame(Opcode.Ping, data));
+    }
+  }
+
+  public close(code: number = 1000, reason: string = ''): void {
+    if (this._state !== 'open') {
+      return;
+    }
+
+    this._state = 'closing';
+    this.closeCode = code;
+    this.closeReason = reason;
+    this.socket.write(encodeFrame(Opcode.Close, this.encodeClosePayload(code, reason)));
+
+    // Give the peer a moment to answer, then drop the connection regardless
+    this.closeTimer = setTimeout(() => this.socket.destroy(), CLOSE_TIMEOUT);
+    this.closeTimer.unref();
+  }
+
+  private receive(chunk: Buffer): void {
+    if (this.isClosed()) {
+      return;
+    }
+
+    try {
+      for (const frame of this.parser.push(chunk)) {
+        this.handleFrame(frame);
+        // Stop at a close frame; anything after it is ignored
+        if (this.isClosed()) {
+          return;
+        }
+      }
+    } catch (error: unknown) {
+      if (error instanceof WebSocketProtocolError) {
+        this.fail(error.code, error.message);
+      } else {
+        this.fail(1011, 'Internal error');
+      }
+    }
+  }
+
+  private handleFrame(frame: IWebSocketFrame): void {
+    if (!frame.masked) {
+      throw new WebSocketProtocolError(1002, 'Client frames must be masked');
+    }
+    if (frame.rsv !== 0) {
+      throw new WebSocketProtocolError(1002, 'Reserved bits must be zero');
+    }
+
+    if (isControlOpcode(frame.opcode)) {
+      this.handleControlFrame(frame);
+      return;
+    }
+
+    if (this._state !== 'open') {
+      // Data received after we started closing is discarded
+      return;
+    }
+
+    if (frame.opcode === Opcode.Continuation) {
+      if (this.fragmentOpcode === undefined) {
+        throw new WebSocketProtocolError(1002, 'Unexpected continuation frame');
+      }
+    } else if (frame.opcode === Opcode.Text || frame.opcode === Opcode.Binary) {
+      if (this.fragmentOpcode !== undefined) {
+        throw new WebSocketProtocolError(1002, 'Expected a continuation frame');
+      }
+      this.fragmentOpcode = frame.opcode;
+    } else {
+      throw new WebSocketProtocolError(1002, `Unknown opcode ${frame.opcode}`);
+    }
+
+    this.fragmentsSize += frame.payload.length;
+    if (this.fragmentsSize > this.maxMessageSize) {
+      throw new WebSocketProtocolError(1009, 'Message too large');
+    }
+    this.fragments.push(frame.payload);
+
+    if (frame.fin) {
+      const opcode = this.fragmentOpcode;
+      const payload = Buffer.concat(this.fragments);
+      this.fragments = [];
+      this.fragmentsSize = 0;
+      this.fragmentOpcode = undefined;
+
+      const message = opcode === Opcode.Text ? this.decodeText(payload) : payload;
+      void this.invoke(() => this.handlers.onMessage?.(this, message));
+    }
+  }
+
+  private handleControlFrame(frame: IWebSocketFrame): void {
+    if (!frame.fin || frame.payload.length > 125) {
+      throw new WebSocketProtocolError(1002, 'Invalid control frame');
+    }
+
+    switch (frame.opcode) {
+      case Opcode.Ping:
+        if (this._state === 'open') {
+          this.socket.write(encodeFrame(Opcode.Pong, frame.payload));
+        }
+        break;
+      case Opcode.Pong:
+        break;
+      case Opcode.Close:
+        this.handleCloseFrame(frame.payload);
+        break;
+      default:
+        throw new WebSocketProtocolError(1002, `Unknown opcode ${frame.opcode}`);
+    }
+  }
+
+  private handleCloseFrame(payload: Buffer): void {
+    if (payload.length === 1) {
+      throw new WebSocketProtocolError(1002, 'Invalid close frame');
+    }
+
+    let code = 1005;
+    let reason = '';
+    if (payload.length >= 2) {
+      code = payload.readUInt16BE(0);
+      if (!this.isValidCloseCode(code)) {
+        throw new WebSocketProtocolError(1002, `Invalid close code ${code}`);
+      }
+      reason = this.decodeText(payload.subarray(2));
+    }
+
+    if (this._state === 'open') {
+      // Peer initiated the close: echo its code and finish
+      this.closeCode = code;
+      this.closeReason = reason;
+      this.socket.write(
+        encodeFrame(Opcode.Close, code === 1005 ? undefined : this.encodeClosePayload(code, ''))
+      );
+    }
+
+    this._state = 'closed';
+    this.socket.end();
+  }
+
+  private isClosed(): boolean {
+    return this._state === 'closed';
+  }
+
+  private fail(code: number, reason: string): void {
+    if (this._state === 'open') {
+      this.close(code, reason);
+    }
+    this._state = 'closed';
+    this.socket.end();
+  }
+
+  private handleSocketClose(): void {
+    clearTimeout(this.closeTimer);
+    this._state = 'closed';
+
+    if (!this.closeNotified) {
+      this.closeNotified = true;
+      void this.invoke(() => this.handlers.onClose?.(this, this.closeCode, this.closeReason));
+    }
+  }
+
+  private decodeText(payload: Buffer): string {
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(payload);
+    } catch {
+      throw new WebSocketProtocolError(1007, 'Invalid UTF-8 payload');
+    }
+  }
+
+  private encodeClosePayload(code: number, reason: string): Buffer {
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    return payload.subarray(0, 125);
+  }
+
+  private isValidCloseCode(code: number): boolean {
+    return (
+      (code >= 1000 && code <= 1003) ||
+      (code >= 1007 && code <= 1014) ||
+      (code >= 3000 && code <= 4999)
+    );
+  }
+
+  // Handler failures close the connection with 1011 instead of crashing the process
+  private async invoke(callback: () => void | Promise<void>): Promise<void> {
+    try {
+      await callback();
+    } catch (error: unknown) {
+      this.logger.error('WebSocket handler error', { path: this.request.path, error });
+      this.fail(1011, 'Internal error');
+    }
+  }
+}
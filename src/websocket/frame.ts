@@ -0,0 +1,154 @@
+import { randomBytes } from 'crypto';
+
+export const Opcode = {
+  Continuation: 0x0,
+  Text: 0x1,
+  Binary: 0x2,
+  Close: 0x8,
+  Ping: 0x9,
+  Pong: 0xa,
+} as const;
+
+export interface IWebSocketFrame {
+  fin: boolean;
+  rsv: number;
+  opcode: number;
+  masked: boolean;
+  payload: Buffer;
+}
+
+// Raised for protocol violations; `code` is the close code to answer with
+export class WebSocketProtocolError extends Error {
+  public readonly code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = 'WebSocketProtocolError';
+    this.code = code;
+  }
+}
+
+export function isControlOpcode(opcode: number): boolean {
+  return (opcode & 0x8) !== 0;
+}
+
+export function encodeFrame(
+  opcode: number,
+  payload: Buffer = Buffer.alloc(0),
+  options: { fin?: boolean; mask?: boolean } = {}
+): Buffer {
+  const fin = options.fin ?? true;
+  const mask = options.mask ?? false;
+  const length = payload.length;
+
+  let header: Buffer;
+  if (length < 126) {
+    header = Buffer.alloc(2);
+    header[1] = length;
+  } else if (length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+
+  header[0] = (fin ? 0x80 : 0) | opcode;
+
+  if (!mask) {
+    return Buffer.concat([header, payload]);
+  }
+
+  header[1] |= 0x80;
+  const key = randomBytes(4);
+  const masked = Buffer.from(payload);
+  for (let i = 0; i < masked.length; i++) {
+    masked[i] ^= key[i & 3];
+  }
+
+  return Buffer.concat([header, key, masked]);
+}
+
+/**
+ * Incremental RFC 6455 frame decoder. Feed it raw socket data with `push` and
+ * read complete frames back; partial frames are kept until more data arrives.
+ */
+export class FrameParser {
+  private buffer: Buffer = Buffer.alloc(0);
+  private readonly maxPayload: number;
+
+  constructor(maxPayload: number = Number.MAX_SAFE_INTEGER) {
+    this.maxPayload = maxPayload;
+  }
+
+  public push(chunk: Buffer): IWebSocketFrame[] {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    const frames: IWebSocketFrame[] = [];
+    let frame: IWebSocketFrame | undefined;
+    while ((frame = this.next())) {
+      frames.push(frame);
+    }
+    return frames;
+  }
+
+  private next(): IWebSocketFrame | undefined {
+    if (this.buffer.length < 2) {
+      return undefined;
+    }
+
+    const first = this.buffer[0];
+    const second = this.buffer[1];
+    const masked = (second & 0x80) !== 0;
+
+    let length = second & 0x7f;
+    let offset = 2;
+
+    if (length === 126) {
+      if (this.buffer.length < 4) return undefined;
+      length = this.buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (this.buffer.length < 10) return undefined;
+      const bigLength = this.buffer.readBigUInt64BE(2);
+      if (bigLength > BigInt(this.maxPayload)) {
+        throw new WebSocketProtocolError(1009, 'Frame payload too large');
+      }
+      length = Number(bigLength);
+      offset = 10;
+    }
+
+    if (length > this.maxPayload) {
+      throw new WebSocketProtocolError(1009, 'Frame payload too large');
+    }
+
+    const maskOffset = offset;
+    if (masked) {
+      offset += 4;
+    }
+
+    if (this.buffer.length < offset + length) {
+      return undefined;
+    }
+
+    const payload = Buffer.from(this.buffer.subarray(offset, offset + length));
+    if (masked) {
+      const key = this.buffer.subarray(maskOffset, maskOffset + 4);
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= key[i & 3];
+      }
+    }
+
+    this.buffer = this.buffer.subarray(offset + length);
+
+    return {
+      fin: (first & 0x80) !== 0,
+      rsv: (first >> 4) & 0x7,
+      opcode: first & 0x0f,
+      masked,
+      payload,
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import { execFileSync } from "child_process";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+export interface TestCertificate {
+    key: string;
+    cert: string;
+}
+
+// Self-signed P-256 certificate from the openssl CLI, valid for a day
+export const createCertificate = (commonName: string, altNames: string[] = [commonName]): TestCertificate => {
+    const dir = mkdtempSync(join(tmpdir(), "nuska-tls-"));
+    try {
+        execFileSync(
+            "openssl",
+            [
+                "req", "-x509", "-nodes", "-days", "1",
+                "-newkey", "ec", "-pkeyopt", "ec_paramgen_curve:prime256v1",
+                "-keyout", join(dir, "key.pem"),
+                "-out", join(dir, "cert.pem"),
+                "-subj", `/CN=${commonName}`,
+                "-addext", `subjectAltName=${altNames.map(name => `DNS:${name}`).join(",")}`,
+            ],
+            { stdio: "ignore" }
+        );
+        return { key: readFileSync(join(dir, "key.pem"), "utf8"), cert: readFileSync(join(dir, "cert.pem"), "utf8") };
+    } finally {
+        rmSync(dir, { recursive: true, force: true });
+    }
+};
@@ -0,0 +1,30 @@
+import { createRequestHeaders, HttpHeaders } from "../../src/headers";
+import { IRequest, IResponse } from "../../src/interfaces";
+import { Server } from "../../src/server";
+
+type RequestOverrides = Omit<Partial<IRequest>, "headers"> & {
+    headers?: Record<string, string | string[]>;
+};
+
+export const createRequest = (
+    method: IRequest["method"],
+    path: string,
+    { headers = {}, ...overrides }: RequestOverrides = {}
+): IRequest => ({
+    id: "",
+    method,
+    url: new URL(`http://localhost${path}`),
+    path,
+    headers: createRequestHeaders(new HttpHeaders(headers)),
+    query: {},
+    params: {},
+    body: undefined,
+    cookies: {},
+    signedCookies: {},
+    state: {},
+    protocol: "HTTP/1.1",
+    ...overrides,
+});
+
+export const dispatch = (server: Server, request: IRequest): Promise<IResponse> =>
+    server["processRequest"](request);
@@ -0,0 +1,207 @@
+import { createHmac, generateKeyPairSync, KeyObject, sign } from "crypto";
+import { apiKeyAuth, basicAuth, jwtAuth, JwtVerifier } from "../../src/auth";
+import { LoopbackEngine } from "../../src/engines";
+import { IJwtClaims, IMiddleware } from "../../src/interfaces";
+import { RouteGroup } from "../../src/RouteGroup";
+import { Server } from "../../src/server";
+
+const base64url = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+const now = () => Math.floor(Date.now() / 1000);
+
+// Signs a compact JWS the way an identity provider would
+const signToken = (
+    claims: IJwtClaims,
+    alg: "HS256" | "RS256" | "ES256",
+    key: string | KeyObject,
+    kid?: string
+) => {
+    const data = `${base64url({ alg, typ: "JWT", kid })}.${base64url(claims)}`;
+    const signature =
+        alg === "HS256"
+            ? createHmac("sha256", key).update(data).digest()
+            : sign("sha256", Buffer.from(data), alg === "ES256" ? { key: key as KeyObject, dsaEncoding: "ieee-p1363" } : (key as KeyObject));
+    return `${data}.${signature.toString("base64url")}`;
+};
+
+const createServer = (middleware: IMiddleware) => {
+    const server = new Server(new LoopbackEngine());
+    server.use(middleware);
+    server.route({ method: "GET", path: "/me", handler: req => req.state.principal ?? { anonymous: true } });
+    return server;
+};
+
+describe("Authentication", () => {
+    describe("jwtAuth", () => {
+        const secret = "hs-secret";
+        const claims = { sub: "ada", exp: now() + 60, iss: "https://id.example", aud: "api", scope: "read write" };
+
+        it("should attach the principal for a valid HS256 token", async () => {
+            const server = createServer(jwtAuth({ keys: [{ algorithm: "HS256", key: secret }] }));
+
+            const response = await server.inject({
+                url: "/me",
+                headers: { authorization: `Bearer ${signToken({ ...claims, roles: ["admin"] }, "HS256", secret)}` },
+            });
+
+            expect(response.status).toBe(200);
+            expect(response.body).toMatchObject({
+                id: "ada",
+                scheme: "bearer",
+                roles: ["admin"],
+                scopes: ["read", "write"],
+            });
+        });
+
+        it("should challenge requests without a token", async () => {
+            const server = createServer(jwtAuth({ keys: [{ algorithm: "HS256", key: secret }], realm: "orders" }));
+
+            const response = await server.inject({ url: "/me" });
+
+            expect(response.status).toBe(401);
+            expect(response.headers["www-authenticate"]).toBe('Bearer realm="orders"');
+        });
+
+        it("should let anonymous requests through when optional", async () => {
+            const server = createServer(jwtAuth({ keys: [{ algorithm: "HS256", key: secret }], optional: true }));
+
+            expect((await server.inject({ url: "/me" })).body).toEqual({ anonymous: true });
+            const invalid = await server.inject({ url: "/me", headers: { authorization: "Bearer nope" } });
+            expect(invalid.status).toBe(401);
+        });
+
+        it("should refuse expired, foreign and tampered tokens", async () => {
+            const server = createServer(
+                jwtAuth({
+                    keys: [{ algorithm: "HS256", key: secret }],
+                    issuer: "https://id.example",
+                    audience: ["api", "admin"],
+                })
+            );
+            const attempt = (token: string) => server.inject({ url: "/me", headers: { authorization: `Bearer ${token}` } });
+
+            const cases: [string, string][] = [
+                [signToken({ ...claims, exp: now() - 1 }, "HS256", secret), "Token expired"],
+                [signToken({ ...claims, exp: undefined }, "HS256", secret), "Token has no expiry"],
+                [signToken({ ...claims, nbf: now() + 60 }, "HS256", secret), "Token not yet valid"],
+                [signToken({ ...claims, iss: "https://evil.example" }, "HS256", secret), "Unexpected issuer"],
+                [signToken({ ...claims, aud: ["web"] }, "HS256", secret), "Unexpected audience"],
+                [signToken(claims, "HS256", "wrong-secret"), "Invalid signature"],
+                [signToken(claims, "HS256", secret).replace(/\.[^.]+\./, `.${base64url({ ...claims, sub: "root" })}.`), "Invalid signature"],
+            ];
+
+            for (const [token, message] of cases) {
+                const response = await attempt(token);
+                expect(response.status).toBe(401);
+                expect(response.headers["www-authenticate"]).toBe(
+                    `Bearer realm="api", error="invalid_token", error_description="${message}"`
+                );
+            }
+        });
+
+        it("should verify RS256 and ES256 tokens and pick keys by kid", async () => {
+            const rsa = generateKeyPairSync("rsa", { modulusLength: 2048 });
+            const ec = generateKeyPairSync("ec", { namedCurve: "P-256" });
+            const verifier = new JwtVerifier({
+                keys: [
+                    { kid: "rsa-1", algorithm: "RS256", key: rsa.publicKey.export({ type: "spki", format: "pem" }) },
+                    { kid: "ec-1", algorithm: "ES256", key: ec.publicKey.export({ format: "jwk" }) },
+                ],
+            });
+
+            await expect(verifier.verify(signToken(claims, "RS256", rsa.privateKey, "rsa-1"))).resolves.toMatchObject({ sub: "ada" });
+            await expect(verifier.verify(signToken(claims, "ES256", ec.privateKey, "ec-1"))).resolves.toMatchObject({ sub: "ada" });
+            await expect(verifier.verify(signToken(claims, "RS256", rsa.privateKey, "rsa-2"))).rejects.toThrow("No key matches the token");
+        });
+
+        it("should not accept a public key as an HMAC secret", async () => {
+            const rsa = generateKeyPairSync("rsa", { modulusLength: 2048 });
+            const pem = rsa.publicKey.export({ type: "spki", format: "pem" }) as string;
+            const verifier = new JwtVerifier({ keys: [{ algorithm: "RS256", key: pem }] });
+
+            await expect(verifier.verify(signToken(claims, "HS256", pem))).rejects.toThrow("No key matches the token");
+        });
+
+        it("should accept tokens signed with any key of a rotating set", async () => {
+            let keys = [{ kid: "2", algorithm: "HS256" as const, key: "new" }, { kid: "1", algorithm: "HS256" as const, key: "old" }];
+            const verifier = new JwtVerifier({ keys: async () => keys });
+
+            await expect(verifier.verify(signToken(claims, "HS256", "old", "1"))).resolves.toBeDefined();
+            await expect(verifier.verify(signToken(claims, "HS256", "new", "2"))).resolves.toBeDefined();
+
+            keys = keys.slice(0, 1);
+            await expect(verifier.verify(signToken(claims, "HS256", "old", "1"))).rejects.toThrow("No key matches the token");
+        });
+    });
+
+    describe("basicAuth", () => {
+        const basic = (credentials: string) => `Basic ${Buffer.from(credentials).toString("base64")}`;
+
+        it("should authenticate users and challenge everyone else", async () => {
+            const server = createServer(
+                basicAuth({
+                    realm: "admin",
+                    users: { ada: "lovelace" },
+                    verify: (username, password) => username === "grace" && password === "hopper:cobol",
+                })
+            );
+            const attempt = (authorization?: string) =>
+                server.inject({ url: "/me", headers: authorization ? { authorization } : {} });
+
+            expect((await attempt(basic("ada:lovelace"))).body).toEqual({ id: "ada", scheme: "basic" });
+            expect((await attempt(basic("grace:hopper:cobol"))).body).toEqual({ id: "grace", scheme: "basic" });
+
+            for (const authorization of [undefined, basic("ada:wrong"), basic("nobody:lovelace"), basic("ada"), "Bearer x"]) {
+                const response = await attempt(authorization);
+                expect(response.status).toBe(401);
+                expect(response.headers["www-authenticate"]).toBe('Basic realm="admin", charset="UTF-8"');
+            }
+        });
+    });
+
+    describe("apiKeyAuth", () => {
+        it("should accept keys from the header or the query string", async () => {
+            const server = createServer(
+                apiKeyAuth({
+                    query: "api_key",
+                    keys: { "key-1": "billing", "key-2": { id: "reports", scheme: "apiKey", scopes: ["read"] } },
+                })
+            );
+
+            expect((await server.inject({ url: "/me", headers: { "X-API-Key": "key-1" } })).body).toEqual({
+                id: "billing",
+                scheme: "apiKey",
+            });
+            expect((await server.inject({ url: "/me?api_key=key-2" })).body).toEqual({
+                id: "reports",
+                scheme: "apiKey",
+                scopes: ["read"],
+            });
+
+            const invalid = await server.inject({ url: "/me", headers: { "x-api-key": "key-3" } });
+            expect(invalid.status).toBe(401);
+            expect(invalid.headers["www-authenticate"]).toBe('ApiKey realm="api", header="x-api-key"');
+        });
+
+        it("should ignore the query string unless enabled", async () => {
+            const server = createServer(apiKeyAuth({ keys: { secret: "svc" } }));
+
+            expect((await server.inject({ url: "/me?api_key=secret" })).status).toBe(401);
+        });
+    });
+
+    it("should protect only the routes of a RouteGroup", async () => {
+        const server = new Server(new LoopbackEngine());
+        server.route({ method: "GET", path: "/health", handler: () => "ok" });
+        server.route(
+            new RouteGroup(
+                "/admin",
+                [{ method: "GET", path: "/me", handler: req => req.state.principal!.id }],
+                [apiKeyAuth({ keys: { secret: "ops" } })]
+            )
+        );
+
+        expect((await server.inject({ url: "/health" })).status).toBe(200);
+        expect((await server.inject({ url: "/admin/me" })).status).toBe(401);
+        expect((await server.inject({ url: "/admin/me", headers: { "x-api-key": "secret" } })).body).toBe("ops");
+    });
+});
@@ -0,0 +1,94 @@
+import { LoopbackEngine } from "../../src/engines";
+import { IMiddleware, IPrincipal } from "../../src/interfaces";
+import { RouteGroup } from "../../src/RouteGroup";
+import { Server } from "../../src/server";
+
+// Stands in for an authentication middleware: the principal comes from a test header
+const fakeAuth: IMiddleware = {
+    async before(req, _res, next) {
+        const principal = req.headers["x-principal"];
+        if (principal) {
+            req.state.principal = JSON.parse(principal) as IPrincipal;
+        }
+        return next();
+    },
+};
+
+const as = (principal: Partial<IPrincipal>) => ({
+    "x-principal": JSON.stringify({ id: "ada", scheme: "bearer", ...principal }),
+});
+
+const createServer = (server = new Server(new LoopbackEngine())) => {
+    server.use(fakeAuth);
+    server.route({ method: "GET", path: "/public", handler: () => "ok" });
+    server.route(
+        new RouteGroup(
+            "/admin",
+            [
+                { method: "GET", path: "/stats", handler: () => "stats" },
+                { method: "DELETE", path: "/users/:id", roles: ["owner"], scopes: ["users:write"], handler: () => "deleted" },
+            ],
+            [],
+            undefined,
+            undefined,
+            { roles: ["admin"] }
+        )
+    );
+    return server;
+};
+
+describe("Authorization", () => {
+    it("should leave routes without requirements alone", async () => {
+        expect((await createServer().inject({ url: "/public" })).status).toBe(200);
+    });
+
+    it("should answer 401 without a principal and 403 without the group role", async () => {
+        const server = createServer();
+
+        const anonymous = await server.inject({ url: "/admin/stats" });
+        expect(anonymous.status).toBe(401);
+
+        const user = await server.inject({ url: "/admin/stats", headers: as({ roles: ["user"] }) });
+        expect(user.status).toBe(403);
+        expect(user.body).toMatchObject({ detail: "Insufficient role" });
+
+        const admin = await server.inject({ url: "/admin/stats", headers: as({ roles: ["admin"] }) });
+        expect(admin.body).toBe("stats");
+    });
+
+    it("should combine group and route requirements", async () => {
+        const server = createServer();
+        const remove = (principal: Partial<IPrincipal>) =>
+            server.inject({ method: "DELETE", url: "/admin/users/1", headers: as(principal) });
+
+        expect((await remove({ roles: ["owner"], scopes: ["users:write"] })).status).toBe(403);
+        expect((await remove({ roles: ["admin"], scopes: ["users:write"] })).status).toBe(403);
+
+        const missingScope = await remove({ roles: ["admin", "owner"], scopes: ["users:read"] });
+        expect(missingScope.status).toBe(403);
+        expect(missingScope.headers["www-authenticate"]).toBe('Bearer error="insufficient_scope", scope="users:write"');
+
+        expect((await remove({ roles: ["admin", "owner"], scopes: ["users:write"] })).body).toBe("deleted");
+    });
+
+    it("should use a custom principal resolver", async () => {
+        const server = new Server(new LoopbackEngine(), {
+            principal: req => (req.headers["x-admin"] === "yes" ? { id: "ops", scheme: "apiKey", roles: ["admin"] } : undefined),
+        });
+        server.route({ method: "GET", path: "/stats", roles: ["admin"], handler: () => "stats" });
+
+        expect((await server.inject({ url: "/stats" })).status).toBe(401);
+        expect((await server.inject({ url: "/stats", headers: { "x-admin": "yes" } })).body).toBe("stats");
+    });
+
+    it("should document requirements in OpenAPI", () => {
+        const { paths } = createServer().openapi();
+
+        expect(paths["/public"].get).not.toHaveProperty("x-roles");
+        expect(paths["/admin/users/{id}"].delete).toMatchObject({
+            "x-roles": ["admin", "owner"],
+            "x-scopes": ["users:write"],
+            responses: { "200": { description: "OK" }, "401": { description: "Unauthorized" }, "403": { description: "Forbidden" } },
+        });
+    });
+});
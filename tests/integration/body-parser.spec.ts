@@ -0,0 +1,150 @@
+import { Readable } from "stream";
+import { HttpEngine } from "../../src/engines";
+import { IMultipartBody } from "../../src/interfaces";
+import { RouteGroup } from "../../src/RouteGroup";
+import { UnauthorizedError } from "../../src/errors";
+import { Server } from "../../src/server";
+import { createRequest, dispatch } from "../helpers/request";
+
+const post = (server: Server, path: string, body: string | Buffer, contentType?: string) =>
+    dispatch(
+        server,
+        createRequest("POST", path, {
+            headers: contentType ? { "content-type": contentType } : {},
+            stream: Readable.from([Buffer.from(body)]),
+        })
+    );
+
+const createServer = () => {
+    const server = new Server(new HttpEngine(), { bodyLimit: 64 });
+    server.route({ method: "POST", path: "/echo", handler: req => ({ body: { received: req.body } }) });
+    server.route(
+        new RouteGroup(
+            "/uploads",
+            [
+                { method: "POST", path: "/", handler: req => ({ body: { received: req.body } }) },
+                { method: "POST", path: "/tiny", bodyLimit: 4, handler: () => "ok" },
+            ],
+            [],
+            undefined,
+            undefined,
+            { bodyLimit: 1024 }
+        )
+    );
+    return server;
+};
+
+describe("Body parsers", () => {
+    it("should parse JSON bodies", async () => {
+        const response = await post(createServer(), "/echo", '{"a":1}', "application/json");
+
+        expect(response.body).toEqual({ received: { a: 1 } });
+    });
+
+    it("should parse urlencoded bodies with repeated keys", async () => {
+        const response = await post(
+            createServer(),
+            "/echo",
+            "tag=a&tag=b&name=x",
+            "application/x-www-form-urlencoded"
+        );
+
+        expect(response.body).toEqual({ received: { tag: ["a", "b"], name: "x" } });
+    });
+
+    it("should keep urlencoded keys named after Object.prototype members", async () => {
+        const response = await post(
+            createServer(),
+            "/echo",
+            "toString=x&__proto__=y&constructor=z",
+            "application/x-www-form-urlencoded"
+        );
+        const received = (response.body as { received: Record<string, unknown> }).received;
+
+        expect(received).toEqual({ toString: "x", ["__proto__"]: "y", constructor: "z" });
+        expect(Object.getPrototypeOf(received)).toBeNull();
+    });
+
+    it("should parse text and fall back to raw buffers", async () => {
+        const text = await post(createServer(), "/echo", "hello", "text/plain; charset=utf-8");
+        const raw = await post(createServer(), "/echo", "bytes", "application/octet-stream");
+
+        expect(text.body).toEqual({ received: "hello" });
+        expect((raw.body as { received: Buffer }).received.toString()).toBe("bytes");
+    });
+
+    it("should parse multipart bodies with file parts", async () => {
+        const body = [
+            "--XyZ",
+            'Content-Disposition: form-data; name="title"',
+            "",
+            "Report",
+            "--XyZ",
+            'Content-Disposition: form-data; name="file"; filename="a.txt"',
+            "Content-Type: text/plain",
+            "",
+            "file contents",
+            "--XyZ--",
+            "",
+        ].join("\r\n");
+
+        const response = await post(createServer(), "/uploads", body, "multipart/form-data; boundary=XyZ");
+        const received = (response.body as { received: IMultipartBody }).received;
+
+        expect(received.fields).toEqual({ title: "Report" });
+        expect(received.files).toHaveLength(1);
+        expect(received.files[0]).toMatchObject({
+            fieldName: "file",
+            filename: "a.txt",
+            contentType: "text/plain",
+            size: 13,
+        });
+        expect(received.files[0].data.toString()).toBe("file contents");
+    });
+
+    it("should keep multipart fields named after Object.prototype members", async () => {
+        const body = ["toString", "__proto__"]
+            .flatMap(name => ["--XyZ", `Content-Disposition: form-data; name="${name}"`, "", name.toUpperCase()])
+            .concat("--XyZ--", "")
+            .join("\r\n");
+
+        const response = await post(createServer(), "/uploads", body, "multipart/form-data; boundary=XyZ");
+        const received = (response.body as { received: IMultipartBody }).received;
+
+        expect(received.fields).toEqual({ toString: "TOSTRING", ["__proto__"]: "__PROTO__" });
+        expect(Object.getPrototypeOf(received.fields)).toBeNull();
+    });
+
+    it("should answer 400 for malformed input", async () => {
+        const response = await post(createServer(), "/echo", "{nope", "application/json");
+
+        expect(response.status).toBe(400);
+    });
+
+    it("should answer 413 when the body exceeds the server, group or route limit", async () => {
+        const large = "x".repeat(100);
+
+        expect((await post(createServer(), "/echo", large, "text/plain")).status).toBe(413);
+        expect((await post(createServer(), "/uploads", large, "text/plain")).status).toBe(200);
+        expect((await post(createServer(), "/uploads/tiny", "12345", "text/plain")).status).toBe(413);
+    });
+
+    it("should not read the body of a request a middleware rejects", async () => {
+        const server = createServer();
+        server.use({
+            async before() {
+                throw new UnauthorizedError();
+            },
+        });
+        const stream = Readable.from([Buffer.from("x".repeat(100))]);
+
+        const response = await dispatch(
+            server,
+            createRequest("POST", "/echo", { headers: { "content-type": "text/plain" }, stream })
+        );
+
+        // 401 rather than the 413 the oversized body would get
+        expect(response.status).toBe(401);
+        expect(stream.readableFlowing).toBeNull();
+    });
+});
@@ -0,0 +1,89 @@
+import * as http from "http";
+import { Readable } from "stream";
+import * as zlib from "zlib";
+import { compression } from "../../src/compression";
+import { HttpEngine, LoopbackEngine } from "../../src/engines";
+import { IEngine } from "../../src/interfaces";
+import { Server } from "../../src/server";
+
+const text = "compressible ".repeat(200);
+
+const createServer = (engine: IEngine = new LoopbackEngine()) => {
+    const server = new Server(engine);
+    server.use(compression({ threshold: 100 }));
+
+    server.route([
+        { method: "GET", path: "/text", handler: () => text },
+        { method: "GET", path: "/json", handler: () => ({ items: Array(50).fill("item") }) },
+        { method: "GET", path: "/small", handler: () => "tiny" },
+        {
+            method: "GET",
+            path: "/image",
+            handler: () => ({ body: Buffer.alloc(500), headers: { "content-type": "image/png" } }),
+        },
+        {
+            method: "GET",
+            path: "/stream",
+            handler: () => ({
+                body: Readable.from([text, text]),
+                headers: { "content-type": "text/plain" },
+            }),
+        },
+        { method: "GET", path: "/raw", compress: false, handler: () => text },
+    ]);
+
+    return server;
+};
+
+describe("Compression", () => {
+    it("should negotiate the encoding from Accept-Encoding", async () => {
+        const server = createServer();
+
+        const gzip = await server.inject({ url: "/text", headers: { "accept-encoding": "gzip, deflate" } });
+        expect(gzip.headers["content-encoding"]).toBe("gzip");
+        expect(gzip.headers["vary"]).toBe("Accept-Encoding");
+        expect(Number(gzip.headers["content-length"])).toBe(gzip.rawBody.length);
+        expect(zlib.gunzipSync(gzip.rawBody).toString()).toBe(text);
+
+        const brotli = await server.inject({ url: "/json", headers: { "accept-encoding": "gzip;q=0.5, br" } });
+        expect(brotli.headers["content-encoding"]).toBe("br");
+        expect(brotli.body).toEqual({ items: Array(50).fill("item") });
+
+        const identity = await server.inject({ url: "/text", headers: { "accept-encoding": "gzip;q=0" } });
+        expect(identity.headers["content-encoding"]).toBeUndefined();
+        expect(identity.headers["vary"]).toBe("Accept-Encoding");
+    });
+
+    it("should skip small bodies, compressed formats and opted out routes", async () => {
+        const server = createServer();
+        const headers = { "accept-encoding": "gzip" };
+
+        for (const url of ["/small", "/image", "/raw"]) {
+            const response = await server.inject({ url, headers });
+            expect(response.headers["content-encoding"]).toBeUndefined();
+        }
+    });
+
+    it("should compress streamed bodies over HTTP", async () => {
+        const server = createServer(new HttpEngine());
+        await server.start(3051);
+
+        try {
+            const { headers, body } = await new Promise<{ headers: http.IncomingHttpHeaders; body: Buffer }>(
+                (resolve, reject) => {
+                    http.get("http://localhost:3051/stream", { headers: { "accept-encoding": "deflate" } }, res => {
+                        const chunks: Buffer[] = [];
+                        res.on("data", chunk => chunks.push(chunk));
+                        res.on("end", () => resolve({ headers: res.headers, body: Buffer.concat(chunks) }));
+                    }).on("error", reject);
+                }
+            );
+
+            expect(headers["content-encoding"]).toBe("deflate");
+            expect(headers["transfer-encoding"]).toBe("chunked");
+            expect(zlib.inflateSync(body).toString()).toBe(text + text);
+        } finally {
+            await server.stop();
+        }
+    });
+});
@@ -0,0 +1,182 @@
+import { CookieSigner, parseCookies } from "../../src/cookies";
+import { LoopbackEngine } from "../../src/engines";
+import { Server } from "../../src/server";
+import { cookieSession, session } from "../../src/session";
+
+const setCookies = (rawHeaders: [string, string][]) =>
+    rawHeaders.filter(([name]) => name === "set-cookie").map(([, value]) => value);
+
+// Turns Set-Cookie values into a Cookie request header, as a browser would
+const cookieHeader = (rawHeaders: [string, string][]) =>
+    setCookies(rawHeaders)
+        .map(value => value.split(";")[0])
+        .join("; ");
+
+describe("Cookies", () => {
+    it("should parse request cookies", async () => {
+        const server = new Server(new LoopbackEngine());
+        server.route({ method: "GET", path: "/", handler: req => req.cookies });
+
+        const response = await server.inject({
+            url: "/",
+            headers: { cookie: 'theme=dark; name="Ada%20L"; theme=light' },
+        });
+
+        expect(response.body).toEqual({ theme: "dark", name: "Ada L" });
+    });
+
+    it("should parse cookies named after Object.prototype members", () => {
+        const cookies = parseCookies("constructor=1; toString=2; __proto__=3");
+
+        expect(cookies.constructor).toBe("1");
+        expect(cookies.toString).toBe("2");
+        expect(Object.keys(cookies)).toEqual(["constructor", "toString", "__proto__"]);
+        expect(parseCookies("a=1").hasOwnProperty).toBeUndefined();
+    });
+
+    it("should set and clear cookies with their attributes", async () => {
+        const server = new Server(new LoopbackEngine());
+        server.route({
+            method: "GET",
+            path: "/",
+            handler: (_req, res) => {
+                res.setCookie("token", "a b", {
+                    domain: "example.com",
+                    path: "/app",
+                    maxAge: 3600,
+                    httpOnly: true,
+                    secure: true,
+                    sameSite: "strict",
+                    partitioned: true,
+                    priority: "high",
+                });
+                res.clearCookie("old");
+                return "ok";
+            },
+        });
+
+        const response = await server.inject({ url: "/" });
+
+        expect(setCookies(response.rawHeaders)).toEqual([
+            "token=a%20b; Domain=example.com; Path=/app; Max-Age=3600; HttpOnly; Secure; SameSite=Strict; Partitioned; Priority=High",
+            "old=; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT",
+        ]);
+    });
+
+    it("should verify signed cookies across rotated keys", async () => {
+        const createServer = (keys: string[]) => {
+            const server = new Server(new LoopbackEngine(), { cookies: { keys } });
+            server.route({
+                method: "GET",
+                path: "/sign",
+                handler: (_req, res) => {
+                    res.setCookie("user", "42", { signed: true });
+                    return "ok";
+                },
+            });
+            server.route({ method: "GET", path: "/read", handler: req => req.signedCookies });
+            return server;
+        };
+
+        const signed = await createServer(["old-key"]).inject({ url: "/sign" });
+        const cookie = cookieHeader(signed.rawHeaders);
+        expect(cookie).toMatch(/^user=42\./);
+
+        const rotated = await createServer(["new-key", "old-key"]).inject({ url: "/read", headers: { cookie } });
+        expect(rotated.body).toEqual({ user: "42" });
+
+        const retired = await createServer(["new-key"]).inject({ url: "/read", headers: { cookie } });
+        expect(retired.body).toEqual({});
+
+        const tampered = await createServer(["old-key"]).inject({
+            url: "/read",
+            headers: { cookie: cookie.replace("user=42", "user=1") },
+        });
+        expect(tampered.body).toEqual({});
+    });
+
+    it("should bind signatures to the cookie name", () => {
+        const signer = new CookieSigner(["secret"]);
+        expect(signer.unsign("role", signer.sign("user", "admin"))).toBeUndefined();
+    });
+});
+
+describe("Sessions", () => {
+    const createServer = (middleware = session()) => {
+        const server = new Server(new LoopbackEngine());
+        server.use(middleware);
+        server.route([
+            {
+                method: "POST",
+                path: "/login",
+                handler: req => {
+                    req.state.session!.regenerate();
+                    req.state.session!.set("user", "ada");
+                    return "ok";
+                },
+            },
+            { method: "GET", path: "/me", handler: req => ({ user: req.state.session!.get("user") ?? null }) },
+            {
+                method: "POST",
+                path: "/logout",
+                handler: req => {
+                    req.state.session!.destroy();
+                    return "ok";
+                },
+            },
+        ]);
+        return server;
+    };
+
+    it("should keep session data in the store between requests", async () => {
+        const server = createServer();
+
+        const anonymous = await server.inject({ url: "/me" });
+        expect(anonymous.body).toEqual({ user: null });
+        expect(setCookies(anonymous.rawHeaders)).toEqual([]);
+
+        const login = await server.inject({ method: "POST", url: "/login" });
+        const [sessionCookie] = setCookies(login.rawHeaders);
+        expect(sessionCookie).toMatch(/^sid=[\w-]+; Path=\/; Max-Age=86400; HttpOnly; SameSite=Lax$/);
+
+        const cookie = cookieHeader(login.rawHeaders);
+        const me = await server.inject({ url: "/me", headers: { cookie } });
+        expect(me.body).toEqual({ user: "ada" });
+
+        const logout = await server.inject({ method: "POST", url: "/logout", headers: { cookie } });
+        expect(setCookies(logout.rawHeaders)[0]).toMatch(/^sid=; .*Expires=Thu, 01 Jan 1970/);
+
+        const afterLogout = await server.inject({ url: "/me", headers: { cookie } });
+        expect(afterLogout.body).toEqual({ user: null });
+    });
+
+    it("should issue a new ID on regenerate", async () => {
+        const server = createServer();
+
+        const first = cookieHeader((await server.inject({ method: "POST", url: "/login" })).rawHeaders);
+        const second = cookieHeader(
+            (await server.inject({ method: "POST", url: "/login", headers: { cookie: first } })).rawHeaders
+        );
+
+        expect(second).not.toBe(first);
+        expect((await server.inject({ url: "/me", headers: { cookie: first } })).body).toEqual({ user: null });
+        expect((await server.inject({ url: "/me", headers: { cookie: second } })).body).toEqual({ user: "ada" });
+    });
+
+    it("should keep encrypted sessions in the cookie", async () => {
+        const server = createServer(cookieSession({ keys: ["secret"] }));
+
+        const login = await server.inject({ method: "POST", url: "/login" });
+        const cookie = cookieHeader(login.rawHeaders);
+        expect(cookie).toMatch(/^session=/);
+        expect(cookie).not.toContain("ada");
+
+        expect((await server.inject({ url: "/me", headers: { cookie } })).body).toEqual({ user: "ada" });
+
+        const rotated = createServer(cookieSession({ keys: ["next", "secret"] }));
+        expect((await rotated.inject({ url: "/me", headers: { cookie } })).body).toEqual({ user: "ada" });
+
+        const otherKey = createServer(cookieSession({ keys: ["other"] }));
+        expect((await otherKey.inject({ url: "/me", headers: { cookie } })).body).toEqual({ user: null });
+    });
+});
@@ -0,0 +1,141 @@
+import { cors } from "../../src/cors";
+import { LoopbackEngine } from "../../src/engines";
+import { BadRequestError } from "../../src/errors";
+import { RouteGroup } from "../../src/RouteGroup";
+import { Server } from "../../src/server";
+
+const createServer = () => {
+    const server = new Server(new LoopbackEngine());
+
+    server.use(
+        cors({
+            origin: ["https://app.example.com", /\.example\.org$/],
+            credentials: true,
+            exposedHeaders: ["x-total-count"],
+            maxAge: 600,
+        })
+    );
+
+    server.route([
+        { method: "GET", path: "/items", handler: () => [] },
+        { method: "PUT", path: "/items", handler: req => req.body as object },
+        {
+            method: "POST",
+            path: "/items",
+            handler: () => {
+                throw new BadRequestError("Invalid item");
+            },
+        },
+    ]);
+
+    server.route(
+        new RouteGroup("/public", [{ method: "GET", path: "/status", handler: () => "ok" }], [], undefined, undefined, {
+            cors: { origin: "*", credentials: false },
+        })
+    );
+    server.route(
+        new RouteGroup("/internal", [{ method: "GET", path: "/metrics", handler: () => "ok" }], [], undefined, undefined, {
+            cors: false,
+        })
+    );
+
+    return server;
+};
+
+describe("CORS", () => {
+    it("should answer preflight requests without an OPTIONS route", async () => {
+        const response = await createServer().inject({
+            method: "OPTIONS",
+            url: "/items",
+            headers: {
+                origin: "https://app.example.com",
+                "access-control-request-method": "POST",
+                "access-control-request-headers": "content-type, authorization",
+            },
+        });
+
+        expect(response.status).toBe(204);
+        expect(response.headers).toMatchObject({
+            "access-control-allow-origin": "https://app.example.com",
+            "access-control-allow-credentials": "true",
+            "access-control-allow-methods": "GET, HEAD, PUT, PATCH, POST, DELETE",
+            "access-control-allow-headers": "content-type, authorization",
+            "access-control-max-age": "600",
+            vary: "Origin, Access-Control-Request-Headers",
+        });
+    });
+
+    it("should add CORS headers to actual and error responses", async () => {
+        const server = createServer();
+
+        const ok = await server.inject({ url: "/items", headers: { origin: "https://api.example.org" } });
+        expect(ok.headers["access-control-allow-origin"]).toBe("https://api.example.org");
+        expect(ok.headers["access-control-expose-headers"]).toBe("x-total-count");
+
+        const failed = await server.inject({
+            method: "POST",
+            url: "/items",
+            headers: { origin: "https://app.example.com" },
+        });
+        expect(failed.status).toBe(400);
+        expect(failed.headers["access-control-allow-origin"]).toBe("https://app.example.com");
+        expect(failed.headers["content-type"]).toBe("application/problem+json");
+    });
+
+    it("should add CORS headers to body parsing, 404 and 405 errors", async () => {
+        const server = createServer();
+        const headers = { origin: "https://app.example.com" };
+
+        const malformed = await server.inject({
+            method: "PUT",
+            url: "/items",
+            headers: { ...headers, "content-type": "application/json" },
+            body: "{bad",
+        });
+        expect(malformed.status).toBe(400);
+        expect(malformed.headers["access-control-allow-origin"]).toBe("https://app.example.com");
+
+        const notAllowed = await server.inject({ method: "DELETE", url: "/items", headers });
+        expect(notAllowed.status).toBe(405);
+        expect(notAllowed.headers["allow"]).toBe("GET, PUT, POST, HEAD, OPTIONS");
+        expect(notAllowed.headers["access-control-allow-origin"]).toBe("https://app.example.com");
+
+        const notFound = await server.inject({ url: "/missing", headers });
+        expect(notFound.status).toBe(404);
+        expect(notFound.headers["access-control-allow-origin"]).toBe("https://app.example.com");
+
+        const disabled = await server.inject({ method: "DELETE", url: "/internal/metrics", headers });
+        expect(disabled.status).toBe(405);
+        expect(disabled.headers["access-control-allow-origin"]).toBeUndefined();
+    });
+
+    it("should leave disallowed origins without CORS headers", async () => {
+        const server = createServer();
+
+        const simple = await server.inject({ url: "/items", headers: { origin: "https://evil.test" } });
+        expect(simple.status).toBe(200);
+        expect(simple.headers["access-control-allow-origin"]).toBeUndefined();
+
+        const preflight = await server.inject({
+            method: "OPTIONS",
+            url: "/items",
+            headers: { origin: "https://evil.test", "access-control-request-method": "DELETE" },
+        });
+        expect(preflight.status).toBe(204);
+        expect(preflight.headers["access-control-allow-origin"]).toBeUndefined();
+    });
+
+    it("should apply RouteGroup overrides", async () => {
+        const server = createServer();
+
+        const open = await server.inject({ url: "/public/status", headers: { origin: "https://evil.test" } });
+        expect(open.headers["access-control-allow-origin"]).toBe("*");
+        expect(open.headers["access-control-allow-credentials"]).toBeUndefined();
+
+        const disabled = await server.inject({
+            url: "/internal/metrics",
+            headers: { origin: "https://app.example.com" },
+        });
+        expect(disabled.headers["access-control-allow-origin"]).toBeUndefined();
+    });
+});
@@ -0,0 +1,93 @@
+import { HttpEngine } from "../../src/engines";
+import { ConflictError, NotFoundError } from "../../src/errors";
+import { RouteHandler } from "../../src/interfaces";
+import { Server, ServerOptions } from "../../src/server";
+import { createRequest, dispatch } from "../helpers/request";
+
+const serve = async (handler: RouteHandler, options: ServerOptions = {}) => {
+    const server = new Server(new HttpEngine(), options);
+    server.route({ method: "GET", path: "/items/:id", handler });
+    return dispatch(server, createRequest("GET", "/items/42"));
+};
+
+describe("Error responses", () => {
+    it("should map a thrown HttpError to its status as problem+json", async () => {
+        const response = await serve(() => {
+            throw new NotFoundError("Item 42 does not exist");
+        });
+
+        expect(response.status).toBe(404);
+        expect(response.headers["content-type"]).toBe("application/problem+json");
+        expect(response.body).toEqual({
+            type: "about:blank",
+            title: "Not Found",
+            status: 404,
+            detail: "Item 42 does not exist",
+            instance: "/items/42",
+        });
+    });
+
+    it("should merge extensions into the problem details", async () => {
+        const response = await serve(() => {
+            throw new ConflictError("Version mismatch", {
+                type: "https://example.com/problems/version",
+                extensions: { expected: 3 },
+            });
+        });
+
+        expect(response.status).toBe(409);
+        expect(response.body).toMatchObject({
+            type: "https://example.com/problems/version",
+            expected: 3,
+        });
+    });
+
+    it("should answer unmatched routes with problem+json", async () => {
+        const server = new Server(new HttpEngine());
+        server.route({ method: "GET", path: "/", handler: () => "ok" });
+
+        const missing = await dispatch(server, createRequest("GET", "/missing"));
+        expect(missing.status).toBe(404);
+        expect(missing.headers["content-type"]).toBe("application/problem+json");
+
+        const wrongMethod = await dispatch(server, createRequest("DELETE", "/"));
+        expect(wrongMethod.status).toBe(405);
+        expect(wrongMethod.headers["allow"]).toBe("GET, HEAD, OPTIONS");
+    });
+
+    it("should hide internal details in production", async () => {
+        const handler = () => {
+            throw new Error("database password rejected");
+        };
+
+        const production = await serve(handler, { production: true });
+        expect(production.status).toBe(500);
+        expect(production.body).toEqual({
+            type: "about:blank",
+            title: "Internal Server Error",
+            status: 500,
+            instance: "/items/42",
+        });
+
+        const development = await serve(handler, { production: false });
+        expect(development.body).toHaveProperty("detail", "database password rejected");
+        expect(development.body).toHaveProperty("stack");
+    });
+
+    it("should use a custom error formatter", async () => {
+        const response = await serve(
+            () => {
+                throw new NotFoundError();
+            },
+            {
+                errorFormatter: (error, request, res) => {
+                    res.json({ code: error.status, path: request?.path });
+                },
+            }
+        );
+
+        expect(response.status).toBe(404);
+        expect(response.headers["content-type"]).toBe("application/json");
+        expect(response.body).toEqual({ code: 404, path: "/items/42" });
+    });
+});
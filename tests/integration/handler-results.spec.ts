@@ -0,0 +1,60 @@
+import { Readable } from "stream";
+import { HttpEngine } from "../../src/engines";
+import { RouteHandler } from "../../src/interfaces";
+import { Server } from "../../src/server";
+import { createRequest, dispatch } from "../helpers/request";
+
+const serve = async (handler: RouteHandler) => {
+    const server = new Server(new HttpEngine());
+    server.route({ method: "GET", path: "/", handler });
+    return dispatch(server, createRequest("GET", "/"));
+};
+
+describe("Route handler return values", () => {
+    it("should use a returned { status, body, headers } object", async () => {
+        const response = await serve(async () => ({
+            status: 201,
+            body: { id: 1 },
+            headers: { location: "/items/1" },
+        }));
+
+        expect(response.status).toBe(201);
+        expect(response.body).toEqual({ id: 1 });
+        expect(response.headers["location"]).toBe("/items/1");
+        expect(response.headers["content-type"]).toBe("application/json");
+    });
+
+    it("should send plain objects as JSON", async () => {
+        const response = await serve(() => ({ status: "open", count: 2 }));
+
+        expect(response.status).toBe(200);
+        expect(response.body).toEqual({ status: "open", count: 2 });
+        expect(response.headers["content-type"]).toBe("application/json");
+    });
+
+    it("should send strings as text", async () => {
+        const response = await serve(() => "hello");
+
+        expect(response.body).toBe("hello");
+        expect(response.headers["content-type"]).toBe("text/plain; charset=utf-8");
+    });
+
+    it("should send Buffers and streams as binary", async () => {
+        const buffer = await serve(() => Buffer.from("raw"));
+        const stream = await serve(() => Readable.from(["a", "b"]));
+
+        expect(Buffer.isBuffer(buffer.body)).toBe(true);
+        expect(buffer.headers["content-type"]).toBe("application/octet-stream");
+        expect(stream.body).toBeInstanceOf(Readable);
+    });
+
+    it("should ignore the return value when the handler already sent a response", async () => {
+        const response = await serve((_req, res) => {
+            res.setStatus(202).send("sent");
+            return "ignored";
+        });
+
+        expect(response.status).toBe(202);
+        expect(response.body).toBe("sent");
+    });
+});
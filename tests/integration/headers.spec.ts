@@ -0,0 +1,136 @@
+import * as http from "http";
+import * as http2 from "http2";
+import { Http2Engine, HttpEngine, LoopbackEngine } from "../../src/engines";
+import { IEngine } from "../../src/interfaces";
+import { Server } from "../../src/server";
+
+const createServer = (engine: IEngine = new LoopbackEngine()) => {
+    const server = new Server(engine);
+    server.route({
+        method: "GET",
+        path: "/echo",
+        handler: (req, res) => {
+            res.appendHeader("Link", "</a.css>; rel=preload");
+            res.appendHeader("link", "</b.js>; rel=preload");
+            res.setHeader("X-Count", "1");
+            res.setHeader("x-count", "2");
+            return { accept: req.headers["accept"], all: req.headers.getAll("Accept") };
+        },
+    });
+    return server;
+};
+
+describe("Headers", () => {
+    it("should keep every value of repeated request and response headers", async () => {
+        const server = createServer();
+
+        const response = await server.inject({
+            url: "/echo",
+            headers: { Accept: ["text/html", "application/json"] },
+        });
+
+        expect(response.body).toEqual({
+            accept: "text/html, application/json",
+            all: ["text/html", "application/json"],
+        });
+        expect(response.headers["link"]).toBe("</a.css>; rel=preload, </b.js>; rel=preload");
+        expect(response.rawHeaders.filter(([name]) => name === "link")).toHaveLength(2);
+        expect(response.headers["x-count"]).toBe("2");
+    });
+
+    it("should keep the raw request header order and casing", async () => {
+        const server = new Server(new LoopbackEngine());
+        server.route({ method: "GET", path: "/", handler: req => req.headers.raw() });
+
+        const response = await server.inject({ url: "/", headers: { "X-First": "1", "x-second": "2" } });
+
+        expect(response.body).toEqual(expect.arrayContaining([["X-First", "1"], ["x-second", "2"]]));
+        expect(Object.keys(response.body as object)).not.toContain("getAll");
+    });
+
+    it("should treat headers named after Object.prototype members as plain headers", async () => {
+        const server = new Server(new LoopbackEngine());
+        server.route({
+            method: "GET",
+            path: "/",
+            handler: (req, res) => {
+                res.setHeader("toString", "out");
+                return { constructor: req.headers["constructor"], proto: req.headers.getAll("__proto__") };
+            },
+        });
+
+        const response = await server.inject({ url: "/", headers: { constructor: "x", ["__proto__"]: "y" } });
+
+        expect(response.status).toBe(200);
+        expect(response.body).toEqual({ constructor: "x", proto: ["y"] });
+        expect(response.headers["tostring"]).toBe("out");
+    });
+
+    describe("Http Engine", () => {
+        const server = createServer(new HttpEngine());
+
+        beforeAll(() => server.start(3071));
+        afterAll(() => server.stop());
+
+        it("should receive and send repeated headers", async () => {
+            const { headers, body } = await new Promise<{ headers: http.IncomingHttpHeaders; body: string }>(
+                resolve => {
+                    const request = http.request("http://localhost:3071/echo", response => {
+                        let body = "";
+                        response.on("data", chunk => (body += chunk));
+                        response.on("end", () => resolve({ headers: response.headers, body }));
+                    });
+                    request.setHeader("accept", ["text/html", "application/json"]);
+                    request.end();
+                }
+            );
+
+            expect(JSON.parse(body).all).toEqual(["text/html", "application/json"]);
+            expect(headers["link"]).toBe("</a.css>; rel=preload, </b.js>; rel=preload");
+            expect(headers["x-count"]).toBe("2");
+        });
+
+        it("should accept a constructor header", async () => {
+            const status = await new Promise<number | undefined>(resolve => {
+                const request = http.request("http://localhost:3071/echo", response => {
+                    response.resume();
+                    response.on("end", () => resolve(response.statusCode));
+                });
+                request.setHeader("constructor", "x");
+                request.end();
+            });
+
+            expect(status).toBe(200);
+        });
+    });
+
+    describe("Http 2 Engine", () => {
+        const server = new Server(new Http2Engine());
+        server.route({
+            method: "GET",
+            path: "/cookies",
+            handler: (_req, res) => {
+                res.setCookie("a", "1");
+                res.setCookie("b", "2");
+                return "ok";
+            },
+        });
+
+        beforeAll(() => server.start(3072));
+        afterAll(() => server.stop());
+
+        it("should send several set-cookie headers", async () => {
+            const client = http2.connect("http://localhost:3072");
+            const request = client.request({ ":path": "/cookies" });
+
+            const headers = await new Promise<http2.IncomingHttpHeaders>(resolve =>
+                request.on("response", resolve)
+            );
+            request.resume();
+            await new Promise(resolve => request.on("end", resolve));
+            client.close();
+
+            expect(headers["set-cookie"]).toEqual(["a=1; Path=/", "b=2; Path=/"]);
+        });
+    });
+});
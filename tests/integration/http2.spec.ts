@@ -0,0 +1,196 @@
+import * as http from "http";
+import * as http2 from "http2";
+import { Readable } from "stream";
+import { Http2Engine, HttpEngine } from "../../src/engines";
+import { IEngine } from "../../src/interfaces";
+import { Server } from "../../src/server";
+
+const createServer = (engine: IEngine) => {
+    const server = new Server(engine);
+    server.route([
+        {
+            method: "GET",
+            path: "/",
+            handler: (_req, res) => {
+                res.push("/style.css").push("/me", { "x-push": "yes" });
+                return "<html></html>";
+            },
+        },
+        { method: "GET", path: "/style.css", handler: () => ({ status: 200, headers: { "content-type": "text/css" }, body: "body{}" }) },
+        { method: "GET", path: "/me", handler: req => ({ cookie: req.headers["cookie"], push: req.headers["x-push"] }) },
+        {
+            method: "GET",
+            path: "/download",
+            handler: (_req, res) => {
+                res.setHeader("trailer", "x-checksum");
+                res.setTrailer("server-timing", "db;dur=5");
+                return Readable.from(
+                    (async function* () {
+                        yield "chunk";
+                        // Announced trailers can still be set once the body is streaming
+                        res.setTrailer("x-checksum", "abc123");
+                    })()
+                );
+            },
+        },
+        {
+            method: "GET",
+            path: "/with-asset",
+            handler: (_req, res) => {
+                res.push("/asset");
+                return "page";
+            },
+        },
+        {
+            method: "GET",
+            path: "/asset",
+            handler: async () => {
+                // Gives the client time to cancel the push before the response goes out
+                await new Promise(resolve => setTimeout(resolve, 50));
+                return "asset";
+            },
+        },
+        {
+            method: "GET",
+            path: "/plain",
+            handler: (_req, res) => {
+                res.setTrailer("x-checksum", "abc123");
+                return "plain";
+            },
+        },
+    ]);
+    return server;
+};
+
+const readStream = (stream: http2.ClientHttp2Stream) =>
+    new Promise<{ headers: http2.IncomingHttpHeaders; body: string; trailers?: http2.IncomingHttpHeaders }>(
+        (resolve, reject) => {
+            let headers: http2.IncomingHttpHeaders = {};
+            let trailers: http2.IncomingHttpHeaders | undefined;
+            let body = "";
+            stream.setEncoding("utf8");
+            stream.on("response", value => (headers = value));
+            stream.on("push", value => (headers = value));
+            stream.on("trailers", value => (trailers = value));
+            stream.on("data", chunk => (body += chunk));
+            stream.on("end", () => resolve({ headers, body, trailers }));
+            stream.on("error", reject);
+        }
+    );
+
+describe("HTTP/2 features", () => {
+    describe("Http 2 Engine", () => {
+        const server = createServer(
+            new Http2Engine({ settings: { maxConcurrentStreams: 50, initialWindowSize: 1 << 20, maxHeaderListSize: 16384 } })
+        );
+
+        beforeAll(() => server.start(3101));
+        afterAll(() => server.stop());
+
+        it("should push resources through the routing pipeline", async () => {
+            const client = http2.connect("http://localhost:3101");
+            const pushed = new Map<string, Promise<{ body: string; headers: http2.IncomingHttpHeaders }>>();
+            client.on("stream", (stream, requestHeaders) => {
+                pushed.set(requestHeaders[":path"] as string, readStream(stream));
+            });
+
+            const main = await readStream(client.request({ ":path": "/", cookie: "sid=42" }));
+            const style = await pushed.get("/style.css");
+            const me = await pushed.get("/me");
+            client.close();
+
+            expect(main.body).toBe("<html></html>");
+            expect(style).toMatchObject({ body: "body{}", headers: { ":status": 200, "content-type": "text/css" } });
+            // Pushed requests inherit the cookie of the original request
+            expect(JSON.parse(me!.body)).toEqual({ cookie: "sid=42", push: "yes" });
+        });
+
+        it("should not push to clients that disabled push", async () => {
+            const client = http2.connect("http://localhost:3101", { settings: { enablePush: false } });
+            const onPush = jest.fn();
+            client.on("stream", onPush);
+
+            const main = await readStream(client.request({ ":path": "/" }));
+            client.close();
+
+            expect(main.body).toBe("<html></html>");
+            expect(onPush).not.toHaveBeenCalled();
+        });
+
+        it("should survive clients cancelling a push", async () => {
+            const client = http2.connect("http://localhost:3101");
+            const cancelled = new Promise<void>(resolve =>
+                client.on("stream", pushed => {
+                    pushed.close(http2.constants.NGHTTP2_CANCEL);
+                    resolve();
+                })
+            );
+
+            expect((await readStream(client.request({ ":path": "/with-asset" }))).body).toBe("page");
+            await cancelled;
+            // Outlive the pushed handler, which only answers after the stream is gone
+            await new Promise(resolve => setTimeout(resolve, 100));
+
+            expect((await readStream(client.request({ ":path": "/plain" }))).body).toBe("plain");
+            client.close();
+        });
+
+        it("should survive clients resetting a stream with an error", async () => {
+            const client = http2.connect("http://localhost:3101");
+            const request = client.request({ ":path": "/asset" });
+            request.on("error", () => undefined);
+            await new Promise(resolve => request.on("ready", resolve));
+            request.close(http2.constants.NGHTTP2_INTERNAL_ERROR);
+            // Outlive the handler, which answers after the reset
+            await new Promise(resolve => setTimeout(resolve, 100));
+
+            expect((await readStream(client.request({ ":path": "/plain" }))).body).toBe("plain");
+            client.close();
+        });
+
+        it("should send trailers after buffered and streamed bodies", async () => {
+            const client = http2.connect("http://localhost:3101");
+            const streamed = await readStream(client.request({ ":path": "/download" }));
+            const plain = await readStream(client.request({ ":path": "/plain" }));
+            client.close();
+
+            expect(streamed.body).toBe("chunk");
+            expect(streamed.trailers).toMatchObject({ "server-timing": "db;dur=5", "x-checksum": "abc123" });
+            expect(plain.body).toBe("plain");
+            expect(plain.trailers).toMatchObject({ "x-checksum": "abc123" });
+        });
+
+        it("should announce the configured settings", async () => {
+            const client = http2.connect("http://localhost:3101");
+            const settings = await new Promise<http2.Settings>(resolve => client.once("remoteSettings", resolve));
+            client.close();
+
+            expect(settings).toMatchObject({
+                maxConcurrentStreams: 50,
+                initialWindowSize: 1 << 20,
+                maxHeaderListSize: 16384,
+            });
+        });
+    });
+
+    describe("Http Engine", () => {
+        const server = createServer(new HttpEngine());
+
+        beforeAll(() => server.start(3102));
+        afterAll(() => server.stop());
+
+        it("should ignore pushes and trailers", async () => {
+            const get = (path: string) =>
+                new Promise<{ body: string; trailers: http.IncomingHttpHeaders }>(resolve => {
+                    http.get(`http://localhost:3102${path}`, response => {
+                        let body = "";
+                        response.on("data", chunk => (body += chunk));
+                        response.on("end", () => resolve({ body, trailers: response.trailers }));
+                    });
+                });
+
+            expect((await get("/")).body).toBe("<html></html>");
+            expect(await get("/download")).toEqual({ body: "chunk", trailers: {} });
+        });
+    });
+});
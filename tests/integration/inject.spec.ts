@@ -0,0 +1,87 @@
+import { Readable } from "stream";
+import { LoopbackEngine } from "../../src/engines";
+import { NotFoundError } from "../../src/errors";
+import { Server } from "../../src/server";
+
+const createServer = () => {
+    const server = new Server(new LoopbackEngine());
+
+    server.use({
+        after: async (_req, res) => {
+            res.setHeader("x-powered-by", "nuska");
+        },
+    });
+
+    server.route([
+        {
+            method: "POST",
+            path: "/echo",
+            handler: req => ({ status: 201, body: { received: req.body, page: req.query.page } }),
+        },
+        { method: "GET", path: "/text", handler: () => "plain" },
+        { method: "GET", path: "/stream", handler: () => Readable.from(["a", "b", "c"]) },
+        {
+            method: "GET",
+            path: "/items/:id",
+            handler: req => {
+                throw new NotFoundError(`Item ${req.params.id} not found`);
+            },
+        },
+    ]);
+
+    return server;
+};
+
+describe("Server.inject", () => {
+    it("should run a JSON request through the full pipeline", async () => {
+        const response = await createServer().inject({
+            method: "POST",
+            url: "/echo?page=2",
+            body: { name: "Ada" },
+        });
+
+        expect(response.status).toBe(201);
+        expect(response.headers["content-type"]).toBe("application/json");
+        expect(response.headers["x-powered-by"]).toBe("nuska");
+        expect(response.body).toEqual({ received: { name: "Ada" }, page: "2" });
+    });
+
+    it("should return text and collected stream bodies", async () => {
+        const server = createServer();
+
+        const text = await server.inject({ url: "/text" });
+        expect(text.body).toBe("plain");
+
+        const stream = await server.inject({ url: "/stream" });
+        expect(stream.headers["content-type"]).toBe("application/octet-stream");
+        expect(stream.rawBody.toString()).toBe("abc");
+    });
+
+    it("should serialize errors like a real engine", async () => {
+        const response = await createServer().inject({ url: "/items/9" });
+
+        expect(response.status).toBe(404);
+        expect(response.headers["content-type"]).toBe("application/problem+json");
+        expect(response.body).toMatchObject({ detail: "Item 9 not found", instance: "/items/9" });
+    });
+
+    it("should handle concurrent requests and drain on stop", async () => {
+        const server = createServer();
+        await server.start(0);
+
+        const responses = await Promise.all(
+            Array.from({ length: 5 }, (_, i) =>
+                server.inject({ method: "POST", url: "/echo", body: String(i) })
+            )
+        );
+
+        expect(responses.map(response => (response.body as { received: string }).received)).toEqual([
+            "0",
+            "1",
+            "2",
+            "3",
+            "4",
+        ]);
+        await server.stop();
+    });
+});
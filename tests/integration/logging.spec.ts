@@ -0,0 +1,126 @@
+import { PassThrough } from "stream";
+import { LoopbackEngine } from "../../src/engines";
+import { ILogger, LogFields, LogLevel } from "../../src/interfaces";
+import { accessLog, createDefaultLogger, JsonLogger } from "../../src/logger";
+import { Server } from "../../src/server";
+
+class MemoryLogger implements ILogger {
+    public entries: { level: LogLevel; message: string; fields?: LogFields }[] = [];
+
+    debug(message: string, fields?: LogFields) {
+        this.entries.push({ level: "debug", message, fields });
+    }
+    info(message: string, fields?: LogFields) {
+        this.entries.push({ level: "info", message, fields });
+    }
+    warn(message: string, fields?: LogFields) {
+        this.entries.push({ level: "warn", message, fields });
+    }
+    error(message: string, fields?: LogFields) {
+        this.entries.push({ level: "error", message, fields });
+    }
+}
+
+describe("Logging", () => {
+    it("should write JSON lines at or above the configured level", () => {
+        const stream = new PassThrough();
+        const logger = new JsonLogger({ level: "warn", stream });
+
+        logger.info("ignored");
+        logger.error("failed", { error: new Error("boom"), port: 80 });
+
+        const lines = stream.read().toString().trim().split("\n");
+        expect(lines).toHaveLength(1);
+
+        const entry = JSON.parse(lines[0]);
+        expect(entry).toMatchObject({ level: "error", message: "failed", port: 80 });
+        expect(entry.error).toMatchObject({ name: "Error", message: "boom" });
+        expect(typeof entry.time).toBe("string");
+    });
+
+    it("should mark circular fields and survive unserializable ones", () => {
+        const stream = new PassThrough();
+        const logger = new JsonLogger({ stream });
+        const request: Record<string, unknown> = { path: "/" };
+        request.self = request;
+        const shared = { id: 1 };
+
+        logger.info("circular", { request, first: shared, second: shared });
+        logger.info("broken", {
+            value: {
+                toJSON() {
+                    throw new Error("nope");
+                },
+            },
+        });
+
+        const [circular, broken] = stream.read().toString().trim().split("\n").map((line: string) => JSON.parse(line));
+        expect(circular).toMatchObject({ request: { path: "/", self: "[Circular]" }, first: { id: 1 }, second: { id: 1 } });
+        expect(broken).toMatchObject({ message: "broken", logError: { message: "nope" } });
+        expect(broken).not.toHaveProperty("value");
+    });
+
+    it("should ignore LOG_LEVEL values that are not levels", () => {
+        const { LOG_LEVEL } = process.env;
+        const write = jest.spyOn(process.stderr, "write").mockImplementation(() => true);
+        process.env.LOG_LEVEL = "toString";
+
+        try {
+            createDefaultLogger().error("hidden");
+            expect(write).not.toHaveBeenCalled();
+        } finally {
+            if (LOG_LEVEL === undefined) {
+                delete process.env.LOG_LEVEL;
+            } else {
+                process.env.LOG_LEVEL = LOG_LEVEL;
+            }
+            write.mockRestore();
+        }
+    });
+
+    it("should record every response in the access log", async () => {
+        const logger = new MemoryLogger();
+        const server = new Server(new LoopbackEngine(), { logger });
+        server.use(accessLog({ logger }));
+        server.route({ method: "GET", path: "/hello", handler: () => "hello" });
+
+        await server.inject({ url: "/hello", remoteAddress: "10.0.0.1" });
+        await server.inject({ url: "/missing" });
+
+        const access = logger.entries.filter(entry => entry.message === "request completed");
+        expect(access.map(entry => entry.fields)).toEqual([
+            expect.objectContaining({
+                method: "GET",
+                path: "/hello",
+                status: 200,
+                bytes: 5,
+                remoteAddress: "10.0.0.1",
+                duration: expect.any(Number),
+            }),
+            expect.objectContaining({ path: "/missing", status: 404 }),
+        ]);
+    });
+
+    it("should log server errors with request context", async () => {
+        const logger = new MemoryLogger();
+        const server = new Server(new LoopbackEngine(), { logger });
+        server.route({
+            method: "POST",
+            path: "/fail",
+            handler: () => {
+                throw new Error("boom");
+            },
+        });
+
+        const response = await server.inject({ method: "POST", url: "/fail" });
+
+        expect(response.status).toBe(500);
+        expect(logger.entries).toEqual([
+            {
+                level: "error",
+                message: "Request processing error",
+                fields: expect.objectContaining({ method: "POST", path: "/fail", status: 500 }),
+            },
+        ]);
+    });
+});
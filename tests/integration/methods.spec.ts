@@ -0,0 +1,56 @@
+import { HttpEngine } from "../../src/engines";
+import { RouteGroup } from "../../src/RouteGroup";
+import { Server } from "../../src/server";
+import { createRequest, dispatch } from "../helpers/request";
+
+const createServer = () => {
+    const server = new Server(new HttpEngine());
+    server.route(
+        new RouteGroup("/api", [
+            { method: "GET", path: "/users/:id", handler: req => ({ id: req.params.id }) },
+            { method: "DELETE", path: "/users/:id", handler: () => ({ status: 204 }) },
+        ])
+    );
+    return server;
+};
+
+describe("Automatic method handling", () => {
+    it("should answer 405 with an Allow header when the path exists under another method", async () => {
+        const response = await dispatch(createServer(), createRequest("POST", "/api/users/1"));
+
+        expect(response.status).toBe(405);
+        expect(response.headers["allow"]).toBe("GET, DELETE, HEAD, OPTIONS");
+    });
+
+    it("should still answer 404 for unknown paths", async () => {
+        const response = await dispatch(createServer(), createRequest("POST", "/api/unknown"));
+
+        expect(response.status).toBe(404);
+    });
+
+    it("should run GET handlers for HEAD and drop the body", async () => {
+        const response = await dispatch(createServer(), createRequest("HEAD", "/api/users/7"));
+
+        expect(response.status).toBe(200);
+        expect(response.body).toBeUndefined();
+        expect(response.headers["content-type"]).toBe("application/json");
+        expect(response.headers["content-length"]).toBe(String('{"id":"7"}'.length));
+    });
+
+    it("should answer OPTIONS from the route table", async () => {
+        const response = await dispatch(createServer(), createRequest("OPTIONS", "/api/users/7"));
+
+        expect(response.status).toBe(204);
+        expect(response.headers["allow"]).toBe("GET, DELETE, HEAD, OPTIONS");
+    });
+
+    it("should prefer explicitly registered OPTIONS routes", async () => {
+        const server = createServer();
+        server.route({ method: "OPTIONS", path: "/custom", handler: () => "custom" });
+
+        const response = await dispatch(server, createRequest("OPTIONS", "/custom"));
+
+        expect(response.status).toBe(200);
+        expect(response.body).toBe("custom");
+    });
+});
@@ -0,0 +1,98 @@
+import { HttpEngine } from "../../src/engines";
+import { IMiddleware } from "../../src/interfaces";
+import { Server } from "../../src/server";
+import { createRequest, dispatch } from "../helpers/request";
+
+describe("Middleware after hooks", () => {
+    it("should run after hooks in reverse order once the handler has finished", async () => {
+        const calls: string[] = [];
+        const track = (name: string): IMiddleware => ({
+            before: async (_req, _res, next) => {
+                calls.push(`${name}:before`);
+                await next();
+            },
+            after: async () => {
+                calls.push(`${name}:after`);
+            },
+        });
+
+        const server = new Server(new HttpEngine());
+        server.use(track("a")).use(track("b"));
+        server.route({
+            method: "GET",
+            path: "/",
+            middlewares: [track("route")],
+            handler: (_req, res) => {
+                calls.push("handler");
+                res.send("ok");
+            },
+        });
+
+        await dispatch(server, createRequest("GET", "/"));
+
+        expect(calls).toEqual([
+            "a:before",
+            "b:before",
+            "route:before",
+            "handler",
+            "route:after",
+            "b:after",
+            "a:after",
+        ]);
+    });
+
+    it("should let after hooks change status, headers and body", async () => {
+        const server = new Server(new HttpEngine());
+        server.use({
+            after: async (_req, res) => {
+                res.setStatus(201);
+                res.setHeader("x-wrapped", "true");
+                res.body = { data: res.body };
+            },
+        });
+        server.route({ method: "GET", path: "/", handler: (_req, res) => res.json("value") });
+
+        const response = await dispatch(server, createRequest("GET", "/"));
+
+        expect(response.status).toBe(201);
+        expect(response.headers["x-wrapped"]).toBe("true");
+        expect(response.body).toEqual({ data: "value" });
+        expect(response.finished).toBe(true);
+        expect(() => response.setStatus(500)).toThrow();
+    });
+
+    it("should run after hooks when an earlier middleware returns a response early", async () => {
+        const calls: string[] = [];
+        const handler = jest.fn();
+
+        const server = new Server(new HttpEngine());
+        server.use({
+            after: async () => {
+                calls.push("outer:after");
+            },
+        });
+        server.use({
+            before: async (_req, res) => {
+                calls.push("guard:before");
+                res.setStatus(401).send("nope");
+            },
+            after: async (_req, res) => {
+                calls.push("guard:after");
+                res.setHeader("www-authenticate", "Bearer");
+            },
+        });
+        server.use({
+            after: async () => {
+                calls.push("inner:after");
+            },
+        });
+        server.route({ method: "GET", path: "/", handler });
+
+        const response = await dispatch(server, createRequest("GET", "/"));
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(calls).toEqual(["guard:before", "guard:after", "outer:after"]);
+        expect(response.status).toBe(401);
+        expect(response.headers["www-authenticate"]).toBe("Bearer");
+    });
+});
@@ -0,0 +1,119 @@
+import { HttpEngine } from "../../src/engines";
+import { IOpenApiDocument } from "../../src/interfaces";
+import { RouteGroup } from "../../src/RouteGroup";
+import { Server } from "../../src/server";
+import { defineRoute } from "../../src/validation";
+import { createRequest, dispatch } from "../helpers/request";
+
+const createServer = () => {
+    const server = new Server(new HttpEngine(), {
+        openapi: { info: { title: "Pets", version: "2.0.0" }, path: "/openapi.json" },
+    });
+
+    server.route({
+        method: "GET",
+        path: "/health",
+        description: "Liveness probe",
+        handler: () => "ok",
+    });
+
+    server.route(
+        new RouteGroup(
+            "/pets",
+            [
+                defineRoute({
+                    method: "GET",
+                    path: "/:id(\\d+)",
+                    tags: ["read"],
+                    schema: {
+                        params: { type: "object", properties: { id: { type: "integer" } } },
+                        query: {
+                            type: "object",
+                            properties: { expand: { type: "boolean", description: "Include owner" } },
+                        },
+                    },
+                    responses: {
+                        200: { schema: { type: "object", properties: { name: { type: "string" } } } },
+                        404: { description: "No such pet" },
+                    },
+                    handler: req => ({ id: req.params.id }),
+                }),
+                defineRoute({
+                    method: "POST",
+                    path: "",
+                    schema: {
+                        body: {
+                            type: "object",
+                            properties: { name: { type: "string" } },
+                            required: ["name"],
+                        },
+                    },
+                    responses: { 201: { description: "Created" } },
+                    handler: req => ({ status: 201, body: req.body }),
+                }),
+                { method: "GET", path: "/files/:folder?/*", handler: () => "file" },
+            ],
+            [],
+            "Pet store operations",
+            ["pets"]
+        )
+    );
+
+    server.route({ kind: "ws", path: "/live" });
+
+    return server;
+};
+
+// Checks the structural rules OpenAPI 3.1 places on what we generate
+const expectValidDocument = (document: IOpenApiDocument) => {
+    expect(document.openapi).toBe("3.1.0");
+    expect(document.info.title).toBeTruthy();
+    expect(document.info.version).toBeTruthy();
+
+    for (const [path, item] of Object.entries(document.paths)) {
+        expect(path.startsWith("/")).toBe(true);
+        const templated = [...path.matchAll(/\{([^}]+)\}/g)].map(match => match[1]).sort();
+
+        for (const operation of Object.values(item)) {
+            const declared = (operation.parameters ?? [])
+                .filter(parameter => parameter.in === "path")
+                .map(parameter => parameter.name)
+                .sort();
+            expect(declared).toEqual(templated);
+
+            expect(Object.keys(operation.responses).length).toBeGreaterThan(0);
+            for (const response of Object.values(operation.responses)) {
+                expect(typeof response.description).toBe("string");
+            }
+        }
+    }
+};
+
+describe("OpenAPI generation", () => {
+    it("should describe registered routes", () => {
+        const document = createServer().openapi();
+
+        expectValidDocument(document);
+        expect(document).toMatchSnapshot();
+    });
+
+    it("should merge group tags and describe them", () => {
+        const document = createServer().openapi();
+
+        expect(document.paths["/pets/{id}"].get.tags).toEqual(["pets", "read"]);
+        expect(document.tags).toEqual([
+            { name: "pets", description: "Pet store operations" },
+            { name: "read" },
+        ]);
+    });
+
+    it("should serve the document as JSON", async () => {
+        const server = createServer();
+        const response = await dispatch(server, createRequest("GET", "/openapi.json"));
+
+        expect(response.status).toBe(200);
+        expect(response.headers["content-type"]).toBe("application/json");
+        expect(response.body).toEqual(server.openapi());
+        expect(server.openapi().paths["/openapi.json"]).toBeUndefined();
+    });
+});
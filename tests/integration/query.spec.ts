@@ -0,0 +1,74 @@
+import * as http2 from "http2";
+import { Http2Engine, HttpEngine, LoopbackEngine } from "../../src/engines";
+import { IEngine } from "../../src/interfaces";
+import { Server } from "../../src/server";
+
+const search = "?tag=a&tag=b&filter[status]=open&filter[page]=2";
+
+const createServer = (engine: IEngine) => {
+    const server = new Server(engine, { query: { coerce: true } });
+    server.route({ method: "GET", path: "/search", handler: req => req.query });
+    return server;
+};
+
+const expected = { tag: ["a", "b"], filter: { status: "open", page: 2 } };
+
+describe("Query strings", () => {
+    it("should parse arrays and nested objects for validation", async () => {
+        const server = new Server(new LoopbackEngine());
+        server.route({
+            method: "GET",
+            path: "/items",
+            schema: {
+                query: {
+                    type: "object",
+                    properties: { ids: { type: "array", items: { type: "integer" } } },
+                    required: ["ids"],
+                },
+            } as const,
+            handler: req => ({ sum: req.query.ids.reduce((total, id) => total + id, 0) }),
+        });
+
+        expect((await server.inject({ url: "/items?ids=1&ids=2&ids=3" })).body).toEqual({ sum: 6 });
+        expect((await server.inject({ url: "/items?ids[]=4" })).body).toEqual({ sum: 4 });
+    });
+
+    it("should accept a custom parser", async () => {
+        const server = new Server(new LoopbackEngine(), { query: { parse: () => ({ custom: "yes" }) } });
+        server.route({ method: "GET", path: "/", handler: req => req.query });
+
+        expect((await server.inject({ url: "/?a=1" })).body).toEqual({ custom: "yes" });
+    });
+
+    describe("Http Engine", () => {
+        const server = createServer(new HttpEngine());
+
+        beforeAll(() => server.start(3081));
+        afterAll(() => server.stop());
+
+        it("should parse the query with the server's parser", async () => {
+            const response = await fetch(`http://localhost:3081/search${search}`);
+            expect(await response.json()).toEqual(expected);
+        });
+    });
+
+    describe("Http 2 Engine", () => {
+        const server = createServer(new Http2Engine());
+
+        beforeAll(() => server.start(3082));
+        afterAll(() => server.stop());
+
+        it("should parse the query with the server's parser", async () => {
+            const client = http2.connect("http://localhost:3082");
+            const request = client.request({ ":path": `/search${search}` });
+
+            let body = "";
+            request.setEncoding("utf8");
+            request.on("data", chunk => (body += chunk));
+            await new Promise(resolve => request.on("end", resolve));
+            client.close();
+
+            expect(JSON.parse(body)).toEqual(expected);
+        });
+    });
+});
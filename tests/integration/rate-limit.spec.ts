@@ -0,0 +1,170 @@
+import { LoopbackEngine } from "../../src/engines";
+import { IRateLimitOptions, IRateLimitStore, IRateLimitUpdate, RateLimitState } from "../../src/interfaces";
+import { rateLimit } from "../../src/rateLimit";
+import { RouteGroup } from "../../src/RouteGroup";
+import { Server } from "../../src/server";
+
+// Stand-in for a shared store such as Redis
+class RecordingStore implements IRateLimitStore {
+    public readonly data = new Map<string, RateLimitState>();
+
+    async update(key: string, update: (state: RateLimitState | undefined) => IRateLimitUpdate) {
+        const { state } = update(this.data.get(key));
+        this.data.set(key, state);
+        return state;
+    }
+
+    async reset(key: string) {
+        this.data.delete(key);
+    }
+}
+
+const createServer = (options: Partial<IRateLimitOptions> = {}) => {
+    let time = 60_000;
+    const clock = {
+        advance: (ms: number) => (time += ms),
+    };
+
+    const server = new Server(new LoopbackEngine());
+    server.use(rateLimit({ limit: 3, windowMs: 10_000, now: () => time, ...options }));
+    server.route({ method: "GET", path: "/", handler: () => "ok" });
+    server.route({
+        method: "GET",
+        path: "/slow",
+        handler: async () => {
+            await new Promise(resolve => setTimeout(resolve, 20));
+            return { ok: true };
+        },
+    });
+    server.route({
+        method: "GET",
+        path: "/fails",
+        handler: async () => {
+            await new Promise(resolve => setTimeout(resolve, 20));
+            throw new Error("boom");
+        },
+    });
+
+    const hit = (headers: Record<string, string> = {}, remoteAddress = "10.0.0.1") =>
+        server.inject({ url: "/", headers, remoteAddress });
+
+    return { server, clock, hit };
+};
+
+describe("Rate limiting", () => {
+    it("should wait for async handlers behind the limiter", async () => {
+        const { server } = createServer();
+
+        const response = await server.inject({ url: "/slow" });
+
+        expect(response.status).toBe(200);
+        expect(response.body).toEqual({ ok: true });
+    });
+
+    it("should turn errors from async handlers into error responses", async () => {
+        const { server } = createServer();
+
+        const response = await server.inject({ url: "/fails" });
+
+        expect(response.status).toBe(500);
+        expect(response.headers["ratelimit-remaining"]).toBe("2");
+    });
+
+    it("should count requests per fixed window and answer 429", async () => {
+        const { clock, hit } = createServer();
+
+        const first = await hit();
+        expect(first.status).toBe(200);
+        expect(first.headers["ratelimit-limit"]).toBe("3");
+        expect(first.headers["ratelimit-remaining"]).toBe("2");
+        expect(first.headers["ratelimit-reset"]).toBe("10");
+        expect(first.headers["ratelimit-policy"]).toBe("3;w=10");
+
+        await hit();
+        await hit();
+        const refused = await hit();
+        expect(refused.status).toBe(429);
+        expect(refused.headers["content-type"]).toBe("application/problem+json");
+        expect(refused.headers["retry-after"]).toBe("10");
+        expect(refused.headers["ratelimit-remaining"]).toBe("0");
+
+        const otherClient = await hit({}, "10.0.0.2");
+        expect(otherClient.status).toBe(200);
+
+        clock.advance(10_000);
+        expect((await hit()).status).toBe(200);
+    });
+
+    it("should weigh the previous window with the sliding window", async () => {
+        const { clock, hit } = createServer({ algorithm: "sliding-window" });
+
+        for (let i = 0; i < 3; i++) {
+            expect((await hit()).status).toBe(200);
+        }
+
+        // A quarter into the next window, 75% of the previous count still applies
+        clock.advance(12_500);
+        const refused = await hit();
+        expect(refused.status).toBe(429);
+        expect(refused.headers["retry-after"]).toBe("1");
+
+        clock.advance(1_000);
+        expect((await hit()).status).toBe(200);
+    });
+
+    it("should refill the token bucket over time", async () => {
+        const { clock, hit } = createServer({ algorithm: "token-bucket" });
+
+        for (let i = 0; i < 3; i++) {
+            expect((await hit()).status).toBe(200);
+        }
+
+        const refused = await hit();
+        expect(refused.status).toBe(429);
+        expect(refused.headers["retry-after"]).toBe("4");
+
+        clock.advance(3_334);
+        const refilled = await hit();
+        expect(refilled.status).toBe(200);
+        expect(refilled.headers["ratelimit-remaining"]).toBe("0");
+    });
+
+    it("should build keys from a header or a function", async () => {
+        const byHeader = createServer({ limit: 1, key: { header: "X-Api-Key" } });
+        expect((await byHeader.hit({ "x-api-key": "a" })).status).toBe(200);
+        expect((await byHeader.hit({ "x-api-key": "b" })).status).toBe(200);
+        expect((await byHeader.hit({ "x-api-key": "a" }, "10.0.0.9")).status).toBe(429);
+
+        const byFunction = createServer({
+            limit: 1,
+            key: request => (request.headers["authorization"] ? undefined : request.remoteAddress),
+        });
+        expect((await byFunction.hit()).status).toBe(200);
+        expect((await byFunction.hit()).status).toBe(429);
+        expect((await byFunction.hit({ authorization: "Bearer token" })).status).toBe(200);
+    });
+
+    it("should keep counters in the configured store", async () => {
+        const store = new RecordingStore();
+        const { hit } = createServer({ store, prefix: "api:" });
+
+        await hit();
+        await hit();
+
+        expect(store.data.get("api:10.0.0.1")).toMatchObject({ count: 2 });
+    });
+
+    it("should limit only the routes of a group", async () => {
+        const server = new Server(new LoopbackEngine());
+        server.route({ method: "GET", path: "/public", handler: () => "ok" });
+        server.route(
+            new RouteGroup("/login", [{ method: "POST", path: "/", handler: () => "ok" }], [
+                rateLimit({ limit: 1, windowMs: 60_000 }),
+            ])
+        );
+
+        expect((await server.inject({ method: "POST", url: "/login" })).status).toBe(200);
+        expect((await server.inject({ method: "POST", url: "/login" })).status).toBe(429);
+        expect((await server.inject({ url: "/public" })).status).toBe(200);
+    });
+});
@@ -0,0 +1,90 @@
+import { getRequestContext } from "../../src/context";
+import { LoopbackEngine } from "../../src/engines";
+import { Server } from "../../src/server";
+
+declare module "../../src/interfaces/IRequestContext" {
+    interface IRequestState {
+        user?: { name: string };
+    }
+}
+
+// Something deep in the call stack that never sees the request object
+const currentUser = async () => {
+    await new Promise(resolve => setImmediate(resolve));
+    return getRequestContext()?.state.user?.name;
+};
+
+const createServer = () => {
+    const server = new Server(new LoopbackEngine());
+
+    server.use({
+        before: async (req, _res, next) => {
+            req.state.user = { name: req.headers["x-user"] ?? "anonymous" };
+            await next();
+        },
+    });
+
+    server.route({
+        method: "GET",
+        path: "/whoami",
+        handler: async req => ({
+            id: req.id,
+            contextId: getRequestContext()?.id,
+            user: await currentUser(),
+        }),
+    });
+
+    return server;
+};
+
+describe("Request context", () => {
+    it("should generate an ID and echo it back", async () => {
+        const response = await createServer().inject({ url: "/whoami" });
+        const body = response.body as { id: string; contextId: string };
+
+        expect(body.id).toMatch(/^[0-9a-f-]{36}$/);
+        expect(body.contextId).toBe(body.id);
+        expect(response.headers["x-request-id"]).toBe(body.id);
+    });
+
+    it("should take the ID from x-request-id or traceparent", async () => {
+        const server = createServer();
+
+        const fromHeader = await server.inject({
+            url: "/whoami",
+            headers: { "X-Request-Id": "abc-123" },
+        });
+        expect(fromHeader.headers["x-request-id"]).toBe("abc-123");
+
+        const fromTrace = await server.inject({
+            url: "/whoami",
+            headers: { traceparent: "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01" },
+        });
+        expect(fromTrace.headers["x-request-id"]).toBe("4bf92f3577b34da6a3ce929d0e0e4736");
+
+        const invalid = await server.inject({ url: "/whoami", headers: { "x-request-id": "a b\r\n" } });
+        expect(invalid.headers["x-request-id"]).not.toBe("a b\r\n");
+    });
+
+    it("should keep concurrent request contexts apart", async () => {
+        const server = createServer();
+        const names = ["ada", "grace", "linus"];
+
+        const responses = await Promise.all(
+            names.map(name => server.inject({ url: "/whoami", headers: { "x-user": name } }))
+        );
+
+        expect(responses.map(response => (response.body as { user: string }).user)).toEqual(names);
+        expect(getRequestContext()).toBeUndefined();
+    });
+
+    it("should tag error responses with the request ID", async () => {
+        const response = await createServer().inject({
+            url: "/missing",
+            headers: { "x-request-id": "trace-me" },
+        });
+
+        expect(response.status).toBe(404);
+        expect(response.headers["x-request-id"]).toBe("trace-me");
+    });
+});
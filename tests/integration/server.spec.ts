@@ -1,5 +1,6 @@
 import { Http2Engine, HttpEngine } from "../../src/engines";
 import { Server } from "../../src/server";
+import { createCertificate } from "../helpers/certificates";
 
 describe("Server Integration Tests", () => {
 describe("Http Engine", () => {
@@ -31,19 +32,15 @@ describe("Http 2 Engine", () => {
         await server.stop();
     });
 
-    it.skip("should start a secure server and register routes correctly", async () => {
-        const engine = new Http2Engine({
-            key: "",
-            cert: ""
-
-        });
+    it("should start a secure server and register routes correctly", async () => {
+        const engine = new Http2Engine(createCertificate("localhost"));
         const server = new Server(engine);
 
         server.route({ method: "GET", path: "", handler: async () => ({ status: 200, body: "Root" }) });
 
         await server.start(3000);
 
-        // expect(engine.isListening).toBe(true);
+        expect(engine.isSecure).toBe(true);
         expect(server['_routes'].length).toBe(1);
         expect(server['_routes'][0].path).toBe("/");
         await server.stop();
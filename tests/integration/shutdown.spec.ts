@@ -0,0 +1,114 @@
+import * as http from "http";
+import * as http2 from "http2";
+import { Http2Engine, HttpEngine } from "../../src/engines";
+import { Server } from "../../src/server";
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const createServer = (engine: HttpEngine | Http2Engine) => {
+    const server = new Server(engine);
+    server.route({
+        method: "GET",
+        path: "/slow",
+        handler: async () => {
+            await delay(200);
+            return "done";
+        },
+    });
+    server.route({ method: "GET", path: "/hang", handler: () => new Promise<void>(() => undefined) });
+    return server;
+};
+
+const get = (port: number, path: string) =>
+    new Promise<http.IncomingMessage & { text: string }>((resolve, reject) => {
+        http.get({ port, path, agent: new http.Agent({ keepAlive: true }) }, response => {
+            let text = "";
+            response.setEncoding("utf8");
+            response.on("data", chunk => (text += chunk));
+            response.on("end", () => resolve(Object.assign(response, { text })));
+        }).on("error", reject);
+    });
+
+describe("Graceful shutdown", () => {
+    describe("Http Engine", () => {
+        it("should finish in-flight requests with Connection: close before stopping", async () => {
+            const server = createServer(new HttpEngine());
+            await server.start(3041);
+            expect(server.isReady).toBe(true);
+
+            const pending = get(3041, "/slow");
+            await delay(50);
+            const stopped = server.stop();
+
+            expect(server.isDraining).toBe(true);
+            expect(server.isReady).toBe(false);
+
+            const response = await pending;
+            await stopped;
+
+            expect(response.statusCode).toBe(200);
+            expect(response.text).toBe("done");
+            expect(response.headers["connection"]).toBe("close");
+            expect(server.isRunning).toBe(false);
+            expect(server.isDraining).toBe(false);
+        });
+
+        it("should destroy connections that outlive the deadline", async () => {
+            const server = createServer(new HttpEngine());
+            await server.start(3042);
+
+            const pending = get(3042, "/hang").catch((error: Error) => error);
+            await delay(50);
+
+            const startedAt = Date.now();
+            await server.stop({ timeout: 100 });
+
+            expect(Date.now() - startedAt).toBeLessThan(1000);
+            expect(await pending).toHaveProperty("code", "ECONNRESET");
+        });
+
+        it("should let concurrent stop() calls wait for the same drain", async () => {
+            const server = createServer(new HttpEngine());
+            await server.start(3044);
+
+            const pending = get(3044, "/slow");
+            await delay(50);
+            const first = server.stop();
+            let secondSettled = false;
+            const second = server.stop().then(() => (secondSettled = true));
+
+            await delay(50);
+            expect(secondSettled).toBe(false);
+
+            await Promise.all([pending, first, second]);
+            expect(server.isRunning).toBe(false);
+        });
+    });
+
+    describe("Http 2 Engine", () => {
+        it("should send GOAWAY and let open streams finish", async () => {
+            const server = createServer(new Http2Engine());
+            await server.start(3043);
+
+            const client = http2.connect("http://localhost:3043");
+            const goaway = new Promise(resolve => client.once("goaway", resolve));
+            const request = client.request({ ":path": "/slow" });
+
+            let text = "";
+            request.setEncoding("utf8");
+            request.on("data", chunk => (text += chunk));
+            const ended = new Promise(resolve => request.on("end", resolve));
+
+            await delay(50);
+            const stopped = server.stop();
+
+            await goaway;
+            await ended;
+            await stopped;
+            client.close();
+
+            expect(text).toBe("done");
+            expect(server.isRunning).toBe(false);
+        });
+    });
+});
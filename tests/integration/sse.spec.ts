@@ -0,0 +1,124 @@
+import * as http from "http";
+import * as http2 from "http2";
+import { Http2Engine, HttpEngine } from "../../src/engines";
+import { ISseStream } from "../../src/interfaces";
+import { Server } from "../../src/server";
+
+const createServer = (engine: HttpEngine | Http2Engine, streams: ISseStream[]) => {
+    const server = new Server(engine);
+    server.route({
+        method: "GET",
+        path: "/events",
+        handler: (_req, res) => {
+            const sse = res.sse({ heartbeat: 20 });
+            streams.push(sse);
+            sse.send("greeting", { resumeFrom: sse.lastEventId ?? null }, "1");
+            sse.send(undefined, "line one\nline two");
+        },
+    });
+    server.route({
+        method: "GET",
+        path: "/firehose",
+        handler: (_req, res) => {
+            streams.push(res.sse({ heartbeat: 0, maxBufferSize: 64 * 1024 }));
+        },
+    });
+    return server;
+};
+
+const readUntil = async (reader: ReadableStreamDefaultReader<Uint8Array>, marker: string) => {
+    const decoder = new TextDecoder();
+    let text = "";
+    while (!text.includes(marker)) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        text += decoder.decode(value);
+    }
+    return text;
+};
+
+describe("Server-Sent Events", () => {
+    describe("Http Engine", () => {
+        const streams: ISseStream[] = [];
+        const server = createServer(new HttpEngine(), streams);
+
+        beforeAll(() => server.start(3021));
+        afterAll(() => server.stop());
+
+        it("should stream events, heartbeats and clean up when the client disconnects", async () => {
+            const controller = new AbortController();
+            const response = await fetch("http://localhost:3021/events", {
+                headers: { "last-event-id": "41" },
+                signal: controller.signal,
+            });
+
+            expect(response.headers.get("content-type")).toBe("text/event-stream; charset=utf-8");
+            expect(response.headers.get("cache-control")).toBe("no-cache");
+
+            const reader = response.body!.getReader();
+            const text = await readUntil(reader, ": \n\n");
+
+            expect(text).toContain('id: 1\nevent: greeting\ndata: {"resumeFrom":"41"}\n\n');
+            expect(text).toContain("data: line one\ndata: line two\n\n");
+
+            const sse = streams[0];
+            const closed = new Promise<void>(resolve => sse.onClose(resolve));
+            controller.abort();
+            await closed;
+
+            expect(sse.closed).toBe(true);
+            expect(sse.send("late", "ignored")).toBe(false);
+        });
+
+        it("should drop clients that stop reading once the buffer limit is reached", async () => {
+            const response = await new Promise<http.IncomingMessage>(resolve =>
+                http.get("http://localhost:3021/firehose", resolve)
+            );
+            response.pause();
+
+            const sse = streams[streams.length - 1];
+            const closed = new Promise<void>(resolve => sse.onClose(resolve));
+            const chunk = "x".repeat(64 * 1024);
+            // Kernel socket buffers take a few megabytes before backpressure reaches the stream
+            for (let round = 0; round < 64 && !sse.closed; round++) {
+                for (let i = 0; i < 16 && sse.send(undefined, chunk); i++);
+                await new Promise(resolve => setImmediate(resolve));
+            }
+            await closed;
+
+            // Reading again surfaces the dropped connection
+            response.on("error", () => undefined);
+            await new Promise(resolve => response.on("close", resolve).resume());
+
+            expect(sse.closed).toBe(true);
+            expect(response.complete).toBe(false);
+        });
+    });
+
+    describe("Http 2 Engine", () => {
+        const streams: ISseStream[] = [];
+        const server = createServer(new Http2Engine(), streams);
+
+        beforeAll(() => server.start(3022));
+        afterAll(() => server.stop());
+
+        it("should stream events until the server closes the stream", async () => {
+            const client = http2.connect("http://localhost:3022");
+            const request = client.request({ ":path": "/events" });
+
+            let text = "";
+            request.setEncoding("utf8");
+            request.on("data", chunk => {
+                text += chunk;
+                if (text.includes("line two")) {
+                    streams[0].close();
+                }
+            });
+            await new Promise(resolve => request.on("end", resolve));
+            client.close();
+
+            expect(text).toContain('data: {"resumeFrom":null}');
+            expect(streams[0].closed).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,92 @@
+import * as http2 from "http2";
+import { Readable } from "stream";
+import { ReadableStream } from "stream/web";
+import { Http2Engine, HttpEngine } from "../../src/engines";
+import { IRoute } from "../../src/interfaces";
+import { Server } from "../../src/server";
+
+async function* numbers() {
+    for (let i = 1; i <= 3; i++) {
+        yield `${i}\n`;
+    }
+}
+
+const routes: IRoute[] = [
+    { method: "GET", path: "/iterable", handler: () => numbers() },
+    { method: "GET", path: "/readable", handler: () => Readable.from(["a", "b", "c"]) },
+    {
+        method: "GET",
+        path: "/web",
+        handler: () =>
+            new ReadableStream({
+                start(controller) {
+                    controller.enqueue(new TextEncoder().encode("web"));
+                    controller.close();
+                },
+            }),
+    },
+    {
+        method: "POST",
+        path: "/upload",
+        streamBody: true,
+        handler: async req => {
+            let bytes = 0;
+            for await (const chunk of req.body as Readable) {
+                bytes += chunk.length;
+            }
+            return { bytes };
+        },
+    },
+];
+
+describe("Streaming", () => {
+    describe("Http Engine", () => {
+        const server = new Server(new HttpEngine());
+        server.route(routes);
+
+        beforeAll(() => server.start(3011));
+        afterAll(() => server.stop());
+
+        it("should stream async iterables with chunked transfer encoding", async () => {
+            const response = await fetch("http://localhost:3011/iterable");
+
+            expect(response.headers.get("transfer-encoding")).toBe("chunked");
+            expect(await response.text()).toBe("1\n2\n3\n");
+        });
+
+        it("should stream Node and web readable streams", async () => {
+            expect(await (await fetch("http://localhost:3011/readable")).text()).toBe("abc");
+            expect(await (await fetch("http://localhost:3011/web")).text()).toBe("web");
+        });
+
+        it("should expose the raw request stream to routes that opt out of buffering", async () => {
+            const response = await fetch("http://localhost:3011/upload", {
+                method: "POST",
+                body: "x".repeat(5 * 1024 * 1024),
+            });
+
+            expect(await response.json()).toEqual({ bytes: 5 * 1024 * 1024 });
+        });
+    });
+
+    describe("Http 2 Engine", () => {
+        const server = new Server(new Http2Engine());
+        server.route(routes);
+
+        beforeAll(() => server.start(3012));
+        afterAll(() => server.stop());
+
+        it("should stream bodies over data frames", async () => {
+            const client = http2.connect("http://localhost:3012");
+            const request = client.request({ ":path": "/iterable" });
+
+            let body = "";
+            request.setEncoding("utf8");
+            request.on("data", chunk => (body += chunk));
+            await new Promise(resolve => request.on("end", resolve));
+            client.close();
+
+            expect(body).toBe("1\n2\n3\n");
+        });
+    });
+});
@@ -0,0 +1,143 @@
+import * as http2 from "http2";
+import * as https from "https";
+import * as tls from "tls";
+import { Http2Engine, HttpEngine } from "../../src/engines";
+import { IEngine } from "../../src/interfaces";
+import { Server } from "../../src/server";
+import { createCertificate } from "../helpers/certificates";
+
+const localhost = createCertificate("localhost");
+const api = createCertificate("api.example.test");
+const wildcard = createCertificate("*.apps.example.test");
+const ca = [localhost.cert, api.cert, wildcard.cert];
+
+const createServer = (engine: IEngine) => {
+    const server = new Server(engine);
+    server.route({
+        method: "GET",
+        path: "/info",
+        handler: req => ({ protocol: req.protocol, url: req.url.href }),
+    });
+    server.route({ method: "POST", path: "/echo", handler: req => req.body as object });
+    return server;
+};
+
+const httpsGet = (port: number, path: string) =>
+    new Promise<{ headers: Record<string, unknown>; body: string; alpn: unknown }>((resolve, reject) => {
+        https
+            .get({ host: "localhost", port, path, agent: new https.Agent({ ca, ALPNProtocols: ["http/1.1"] }) }, response => {
+                let body = "";
+                response.on("data", chunk => (body += chunk));
+                response.on("end", () =>
+                    resolve({ headers: response.headers, body, alpn: (response.socket as tls.TLSSocket).alpnProtocol })
+                );
+            })
+            .on("error", reject);
+    });
+
+const h2Request = (client: http2.ClientHttp2Session, headers: http2.OutgoingHttpHeaders, payload?: string) =>
+    new Promise<string>((resolve, reject) => {
+        const request = client.request(headers);
+        let body = "";
+        request.setEncoding("utf8");
+        request.on("data", chunk => (body += chunk));
+        request.on("end", () => resolve(body));
+        request.on("error", reject);
+        request.end(payload);
+    });
+
+// Common name of the certificate the server presents for a server name
+const presentedCertificate = (port: number, servername: string) =>
+    new Promise<string>((resolve, reject) => {
+        const socket = tls.connect({ host: "localhost", port, servername, rejectUnauthorized: false, ALPNProtocols: ["h2"] }, () => {
+            const { subject } = socket.getPeerCertificate();
+            socket.end();
+            resolve(subject.CN as string);
+        });
+        socket.on("error", reject);
+    });
+
+describe("TLS", () => {
+    it("should report whether an engine uses TLS", () => {
+        expect(new Http2Engine().isSecure).toBe(false);
+        expect(new Http2Engine({ key: "", cert: "" }).isSecure).toBe(false);
+        expect(new Http2Engine(localhost).isSecure).toBe(true);
+        expect(new HttpEngine().isSecure).toBe(false);
+        expect(new HttpEngine(localhost).isSecure).toBe(true);
+    });
+
+    it("should refuse to update certificates without TLS", () => {
+        expect(() => new HttpEngine().updateCertificates(localhost)).toThrow("without TLS");
+    });
+
+    describe("HTTPS engine", () => {
+        const server = createServer(new HttpEngine(localhost));
+
+        beforeAll(() => server.start(3091));
+        afterAll(() => server.stop());
+
+        it("should serve HTTP/1.1 over TLS", async () => {
+            const { body } = await httpsGet(3091, "/info");
+            expect(JSON.parse(body)).toEqual({ protocol: "HTTP/1.1", url: "https://localhost:3091/info" });
+        });
+    });
+
+    describe("Http 2 Engine", () => {
+        const engine = new Http2Engine({
+            ...localhost,
+            sni: { "api.example.test": api, "*.apps.example.test": wildcard },
+        });
+        const server = createServer(engine);
+
+        beforeAll(() => server.start(3092));
+        afterAll(() => server.stop());
+
+        it("should negotiate h2 and http/1.1 on one port", async () => {
+            const client = http2.connect("https://localhost:3092", { ca });
+            const info = await h2Request(client, { ":path": "/info" });
+            const echo = await h2Request(
+                client,
+                { ":method": "POST", ":path": "/echo", "content-type": "application/json" },
+                '{"a":1}'
+            );
+            client.close();
+
+            expect(JSON.parse(info)).toEqual({ protocol: "HTTP/2", url: "https://localhost:3092/info" });
+            expect(JSON.parse(echo)).toEqual({ a: 1 });
+
+            const fallback = await httpsGet(3092, "/info");
+            expect(fallback.alpn).toBe("http/1.1");
+            expect(JSON.parse(fallback.body).protocol).toBe("HTTP/1.1");
+        });
+
+        it("should pick certificates by server name", async () => {
+            expect(await presentedCertificate(3092, "api.example.test")).toBe("api.example.test");
+            expect(await presentedCertificate(3092, "web.apps.example.test")).toBe("*.apps.example.test");
+            expect(await presentedCertificate(3092, "unknown.example.test")).toBe("localhost");
+        });
+
+        it("should reload certificates without dropping open sessions", async () => {
+            const client = http2.connect("https://localhost:3092", { ca });
+            await h2Request(client, { ":path": "/info" });
+
+            const renewed = createCertificate("renewed.example.test", ["localhost"]);
+            engine.updateCertificates({ ...renewed, sni: { "api.example.test": api } });
+
+            // The open session keeps its keys, new handshakes see the new certificates
+            expect(JSON.parse(await h2Request(client, { ":path": "/info" })).protocol).toBe("HTTP/2");
+            client.close();
+
+            const socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+                const connection = tls.connect(
+                    { host: "localhost", port: 3092, ca: [renewed.cert], ALPNProtocols: ["h2"] },
+                    () => resolve(connection)
+                );
+                connection.on("error", reject);
+            });
+            expect(socket.getPeerCertificate().subject.CN).toBe("renewed.example.test");
+            socket.end();
+
+            expect(await presentedCertificate(3092, "web.apps.example.test")).toBe("renewed.example.test");
+        });
+    });
+});
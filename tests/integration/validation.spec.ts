@@ -0,0 +1,124 @@
+import { HttpEngine } from "../../src/engines";
+import { IValidator } from "../../src/interfaces";
+import { Server } from "../../src/server";
+import { defineRoute } from "../../src/validation";
+import { RouteGroup } from "../../src/RouteGroup";
+import { createRequest, dispatch } from "../helpers/request";
+
+const createServer = () => {
+    const server = new Server(new HttpEngine());
+
+    server.route({
+        method: "POST",
+        path: "/users/:id",
+        schema: {
+            params: { type: "object", properties: { id: { type: "integer" } }, required: ["id"] },
+            query: { type: "object", properties: { notify: { type: "boolean", default: false } } },
+            body: {
+                type: "object",
+                properties: {
+                    name: { type: "string", minLength: 1 },
+                    role: { enum: ["admin", "member"] },
+                    tags: { type: "array", items: { type: "string" } },
+                },
+                required: ["name", "role"],
+                additionalProperties: false,
+            },
+        },
+        handler: req => {
+            // Inferred from the schemas above, no casts needed
+            const id: number = req.params.id;
+            const notify: boolean = req.query.notify;
+            const name: string = req.body.name;
+            const role: "admin" | "member" = req.body.role;
+            const tags: string[] | undefined = req.body.tags;
+
+            return { id, notify, name, role, tags };
+        },
+    });
+
+    return server;
+};
+
+describe("Request validation", () => {
+    it("should pass coerced and defaulted values to the handler", async () => {
+        const response = await dispatch(
+            createServer(),
+            createRequest("POST", "/users/7", { body: { name: "Ada", role: "admin" } })
+        );
+
+        expect(response.status).toBe(200);
+        expect(response.body).toEqual({ id: 7, notify: false, name: "Ada", role: "admin" });
+    });
+
+    it("should answer 400 listing every field error", async () => {
+        const response = await dispatch(
+            createServer(),
+            createRequest("POST", "/users/abc", {
+                query: { notify: "maybe" },
+                body: { name: "", tags: ["a", 1], extra: true },
+            })
+        );
+
+        expect(response.status).toBe(400);
+        expect(response.headers["content-type"]).toBe("application/problem+json");
+        expect(response.body).toMatchObject({
+            title: "Bad Request",
+            errors: [
+                { path: "params.id", message: "must be integer" },
+                { path: "query.notify", message: "must be boolean" },
+                { path: "body.role", message: "is required" },
+                { path: "body.name", message: "must be at least 1 characters" },
+                { path: "body.tags.1", message: "must be string" },
+                { path: "body.extra", message: "is not allowed" },
+            ],
+        });
+    });
+
+    it("should reject additional properties named after Object.prototype members", async () => {
+        const response = await dispatch(
+            createServer(),
+            createRequest("POST", "/users/7", {
+                body: { name: "Ada", role: "admin", constructor: 1, toString: "x" },
+            })
+        );
+
+        expect(response.status).toBe(400);
+        expect(response.body).toMatchObject({
+            errors: [
+                { path: "body.constructor", message: "is not allowed" },
+                { path: "body.toString", message: "is not allowed" },
+            ],
+        });
+    });
+
+    it("should accept any validator implementing the adapter interface", async () => {
+        const even: IValidator<{ n: number }> = {
+            validate: input => {
+                const n = Number((input as Record<string, string>).n);
+                return n % 2 === 0
+                    ? { success: true, value: { n } }
+                    : { success: false, issues: [{ path: "n", message: "must be even" }] };
+            },
+        };
+
+        const server = new Server(new HttpEngine());
+        server.route(
+            new RouteGroup("/api", [
+                defineRoute({
+                    method: "GET",
+                    path: "/even",
+                    schema: { query: even },
+                    handler: req => ({ half: req.query.n / 2 }),
+                }),
+            ])
+        );
+
+        const ok = await dispatch(server, createRequest("GET", "/api/even", { query: { n: "4" } }));
+        expect(ok.body).toEqual({ half: 2 });
+
+        const bad = await dispatch(server, createRequest("GET", "/api/even", { query: { n: "3" } }));
+        expect(bad.status).toBe(400);
+        expect(bad.body).toMatchObject({ errors: [{ path: "query.n", message: "must be even" }] });
+    });
+});
@@ -0,0 +1,237 @@
+import * as http from "http";
+import { Socket } from "net";
+import { HttpEngine } from "../../src/engines";
+import { RouteGroup } from "../../src/RouteGroup";
+import { Server } from "../../src/server";
+import { encodeFrame, FrameParser, IWebSocketFrame, Opcode } from "../../src/websocket";
+
+const PORT = 3031;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Minimal RFC 6455 client built on the same frame codec
+class TestClient {
+    public readonly frames: IWebSocketFrame[] = [];
+    private readonly parser = new FrameParser();
+    private waiters: Array<() => void> = [];
+
+    constructor(public readonly socket: Socket, head: Buffer) {
+        socket.on("data", chunk => this.receive(chunk));
+        this.receive(head);
+    }
+
+    private receive(chunk: Buffer): void {
+        this.frames.push(...this.parser.push(chunk));
+        this.waiters.forEach(resolve => resolve());
+        this.waiters = [];
+    }
+
+    static connect(
+        path: string,
+        headers: Record<string, string> = {},
+        port = PORT
+    ): Promise<TestClient | http.IncomingMessage> {
+        return new Promise((resolve, reject) => {
+            const request = http.request({
+                port,
+                path,
+                headers: {
+                    connection: "Upgrade",
+                    upgrade: "websocket",
+                    "sec-websocket-version": "13",
+                    "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+                    ...headers,
+                },
+            });
+            request.on("upgrade", (response, socket, head) => {
+                expect(response.headers["sec-websocket-accept"]).toBe("s3pPLMBiTxaQ9kYGzzhZRbK+xOo=");
+                resolve(new TestClient(socket as Socket, head));
+            });
+            request.on("response", resolve);
+            request.on("error", reject);
+            request.end();
+        });
+    }
+
+    send(opcode: number, payload: string | Buffer, fin = true): void {
+        this.socket.write(encodeFrame(opcode, Buffer.from(payload), { fin, mask: true }));
+    }
+
+    async nextFrame(): Promise<IWebSocketFrame> {
+        while (this.frames.length === 0) {
+            await new Promise<void>(resolve => this.waiters.push(resolve));
+        }
+        return this.frames.shift()!;
+    }
+
+    closed(): Promise<void> {
+        return new Promise(resolve => this.socket.on("close", () => resolve()));
+    }
+}
+
+const connect = async (path: string, headers?: Record<string, string>) => {
+    const client = await TestClient.connect(path, headers);
+    if (!(client instanceof TestClient)) {
+        throw new Error(`Upgrade rejected with ${client.statusCode}`);
+    }
+    return client;
+};
+
+describe("WebSocket routes", () => {
+    const closes: Array<{ code: number; reason: string }> = [];
+    let onServerClose: () => void = () => undefined;
+    const serverClosed = () => new Promise<void>(resolve => (onServerClose = resolve));
+    const finished: Array<{ path: string; status: number }> = [];
+    const server = new Server(new HttpEngine());
+
+    server.use({
+        onFinish: async (req, res) => {
+            finished.push({ path: req.path, status: res.status });
+        },
+        before: async (req, res, next) => {
+            if (req.path.startsWith("/private") && req.headers["authorization"] !== "secret") {
+                res.setStatus(401).json({ error: "Unauthorized" });
+                return;
+            }
+            await next();
+        },
+    });
+    server.route(
+        new RouteGroup("/ws", [
+            {
+                kind: "ws",
+                path: "/echo/:room",
+                maxMessageSize: 16,
+                onOpen: socket => socket.send(`joined ${socket.request.params.room}`),
+                onMessage: (socket, message) => socket.send(message),
+                onClose: (_socket, code, reason) => {
+                    closes.push({ code, reason });
+                    onServerClose();
+                },
+            },
+        ])
+    );
+    server.route({ kind: "ws", path: "/private", onOpen: socket => socket.send("welcome") });
+
+    beforeAll(() => server.start(PORT));
+    afterAll(() => server.stop());
+
+    it("should complete the handshake, fill params and echo messages", async () => {
+        const client = await connect("/ws/echo/lobby");
+
+        expect((await client.nextFrame()).payload.toString()).toBe("joined lobby");
+
+        client.send(Opcode.Text, "hello");
+        const text = await client.nextFrame();
+        expect(text.opcode).toBe(Opcode.Text);
+        expect(text.masked).toBe(false);
+        expect(text.payload.toString()).toBe("hello");
+
+        client.send(Opcode.Binary, Buffer.from([1, 2, 3]));
+        const binary = await client.nextFrame();
+        expect(binary.opcode).toBe(Opcode.Binary);
+        expect([...binary.payload]).toEqual([1, 2, 3]);
+
+        const closed = client.closed();
+        client.send(Opcode.Close, Buffer.from([0x03, 0xe8]));
+        const close = await client.nextFrame();
+        expect(close.opcode).toBe(Opcode.Close);
+        expect(close.payload.readUInt16BE(0)).toBe(1000);
+        await closed;
+    });
+
+    it("should reassemble fragmented messages and answer pings", async () => {
+        const client = await connect("/ws/echo/a");
+        await client.nextFrame();
+
+        client.send(Opcode.Ping, "are you there");
+        const pong = await client.nextFrame();
+        expect(pong.opcode).toBe(Opcode.Pong);
+        expect(pong.payload.toString()).toBe("are you there");
+
+        client.send(Opcode.Text, "frag", false);
+        client.send(Opcode.Ping, "");
+        client.send(Opcode.Continuation, "ment", false);
+        client.send(Opcode.Continuation, "ed", true);
+
+        expect((await client.nextFrame()).opcode).toBe(Opcode.Pong);
+        expect((await client.nextFrame()).payload.toString()).toBe("fragmented");
+
+        client.socket.destroy();
+    });
+
+    it("should close with 1009 when a message exceeds the maximum size", async () => {
+        const client = await connect("/ws/echo/a");
+        await client.nextFrame();
+
+        const closed = serverClosed();
+        client.send(Opcode.Text, "x".repeat(17));
+        const close = await client.nextFrame();
+
+        expect(close.opcode).toBe(Opcode.Close);
+        expect(close.payload.readUInt16BE(0)).toBe(1009);
+        await closed;
+        expect(closes).toContainEqual({ code: 1009, reason: "Frame payload too large" });
+    });
+
+    it("should close with 1002 when client frames are not masked", async () => {
+        const client = await connect("/ws/echo/a");
+        await client.nextFrame();
+
+        client.socket.write(encodeFrame(Opcode.Text, Buffer.from("plain")));
+        const close = await client.nextFrame();
+
+        expect(close.payload.readUInt16BE(0)).toBe(1002);
+        client.socket.destroy();
+    });
+
+    it("should run middlewares during the handshake", async () => {
+        const rejected = await TestClient.connect("/private");
+        expect(rejected).toBeInstanceOf(http.IncomingMessage);
+        expect((rejected as http.IncomingMessage).statusCode).toBe(401);
+
+        const client = await connect("/private", { authorization: "secret" });
+        expect((await client.nextFrame()).payload.toString()).toBe("welcome");
+        client.socket.destroy();
+    });
+
+    it("should reject upgrades for unknown paths", async () => {
+        const rejected = await TestClient.connect("/nowhere");
+
+        expect((rejected as http.IncomingMessage).statusCode).toBe(404);
+    });
+
+    it("should report handshakes to onFinish hooks", async () => {
+        finished.length = 0;
+        const client = await connect("/ws/echo/lobby");
+        await TestClient.connect("/private");
+        client.socket.destroy();
+
+        expect(finished).toEqual([
+            { path: "/ws/echo/lobby", status: 101 },
+            { path: "/private", status: 401 },
+        ]);
+    });
+
+    it("should turn away handshakes while the server is draining", async () => {
+        const draining = new Server(new HttpEngine());
+        draining.use({
+            before: async (_req, _res, next) => {
+                await delay(100);
+                await next();
+            },
+        });
+        draining.route({ kind: "ws", path: "/late", onOpen: socket => socket.send("welcome") });
+        await draining.start(3032);
+
+        const pending = TestClient.connect("/late", {}, 3032);
+        await delay(50);
+        const stopped = draining.stop();
+        const rejected = (await pending) as http.IncomingMessage;
+        await stopped;
+
+        expect(rejected).toBeInstanceOf(http.IncomingMessage);
+        expect(rejected.statusCode).toBe(503);
+        expect(rejected.headers["connection"]).toBe("close");
+    });
+});
@@ -0,0 +1,53 @@
+import { QueryParser } from "../../src/query";
+
+describe("QueryParser", () => {
+    const parser = new QueryParser();
+
+    it("should collect repeated and bracketed keys into arrays", () => {
+        expect(parser.parse("?tag=a&tag=b&page=2")).toEqual({ tag: ["a", "b"], page: "2" });
+        expect(parser.parse("tag[]=a")).toEqual({ tag: ["a"] });
+        expect(parser.parse("ids[1]=b&ids[0]=a")).toEqual({ ids: ["a", "b"] });
+        expect(parser.parse("q=a%20b&empty=")).toEqual({ q: "a b", empty: "" });
+    });
+
+    it("should build nested objects from brackets", () => {
+        expect(parser.parse("filter[status]=open&filter[tags][]=x&filter[tags][]=y")).toEqual({
+            filter: { status: "open", tags: ["x", "y"] },
+        });
+        expect(parser.parse("items[0][name]=a&items[0][qty]=2&items[1][name]=b")).toEqual({
+            items: [{ name: "a", qty: "2" }, { name: "b" }],
+        });
+    });
+
+    it("should keep the first shape when keys conflict", () => {
+        expect(parser.parse("a=1&a[b]=2")).toEqual({ a: "1" });
+        expect(parser.parse("a[b]=1&a=2")).toEqual({ a: { b: "1" } });
+        expect(parser.parse("a[]=1&a[x]=2")).toEqual({ a: ["1"] });
+        expect(parser.parse("a[b=1&c[d]e=2")).toEqual({ "a[b": "1", "c[d]e": "2" });
+    });
+
+    it("should enforce depth, parameter and index limits", () => {
+        expect(new QueryParser({ depth: 1 }).parse("a[b][c]=1")).toEqual({ a: { b: { "[c]": "1" } } });
+        expect(new QueryParser({ depth: 0 }).parse("a[b]=1")).toEqual({ "a[b]": "1" });
+        expect(new QueryParser({ parameterLimit: 2 }).parse("a=1&b=2&c=3")).toEqual({ a: "1", b: "2" });
+        expect(new QueryParser({ arrayLimit: 5 }).parse("a[9999]=x")).toEqual({ a: { 9999: "x" } });
+    });
+
+    it("should ignore prototype keys", () => {
+        const query = parser.parse("__proto__[polluted]=1&constructor[prototype][x]=1&a[__proto__]=1");
+
+        expect(query).toEqual({});
+        expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    });
+
+    it("should optionally coerce values and drop arrays", () => {
+        expect(new QueryParser({ coerce: true }).parse("n=5&f=-1.5&b=true&s=007&big=12345678901234567890")).toEqual({
+            n: 5,
+            f: -1.5,
+            b: true,
+            s: "007",
+            big: "12345678901234567890",
+        });
+        expect(new QueryParser({ arrays: false }).parse("tag=a&tag=b")).toEqual({ tag: "a" });
+    });
+});
@@ -0,0 +1,85 @@
+import { Router } from "../../src/router";
+
+describe("Router", () => {
+    it("should match static routes", () => {
+        const router = new Router<string>();
+        router.add("GET", "/users", "list");
+        router.add("GET", "/", "root");
+
+        expect(router.lookup("GET", "/users")?.handler).toBe("list");
+        expect(router.lookup("GET", "/users/")?.handler).toBe("list");
+        expect(router.lookup("GET", "/")?.handler).toBe("root");
+        expect(router.lookup("POST", "/users")).toBeUndefined();
+        expect(router.lookup("GET", "/missing")).toBeUndefined();
+    });
+
+    it("should capture named parameters", () => {
+        const router = new Router<string>();
+        router.add("GET", "/users/:id/posts/:postId", "post");
+
+        const match = router.lookup("GET", "/users/42/posts/hello%20world");
+
+        expect(match?.handler).toBe("post");
+        expect(match?.params).toEqual({ id: "42", postId: "hello world" });
+    });
+
+    it("should prefer static segments over parameters", () => {
+        const router = new Router<string>();
+        router.add("GET", "/users/:id", "byId");
+        router.add("GET", "/users/me", "me");
+
+        expect(router.lookup("GET", "/users/me")?.handler).toBe("me");
+        expect(router.lookup("GET", "/users/7")?.handler).toBe("byId");
+    });
+
+    it("should backtrack when a static branch does not match", () => {
+        const router = new Router<string>();
+        router.add("GET", "/users/me/settings", "settings");
+        router.add("GET", "/users/:id/friends", "friends");
+
+        expect(router.lookup("GET", "/users/me/friends")?.params).toEqual({ id: "me" });
+    });
+
+    it("should support optional parameters", () => {
+        const router = new Router<string>();
+        router.add("GET", "/archive/:year?", "archive");
+
+        expect(router.lookup("GET", "/archive")?.params).toEqual({});
+        expect(router.lookup("GET", "/archive/2024")?.params).toEqual({ year: "2024" });
+    });
+
+    it("should support regex constraints", () => {
+        const router = new Router<string>();
+        router.add("GET", "/items/:id(\\d+)", "numeric");
+        router.add("GET", "/items/:slug", "slug");
+
+        expect(router.lookup("GET", "/items/12")?.handler).toBe("numeric");
+        expect(router.lookup("GET", "/items/abc")?.handler).toBe("slug");
+    });
+
+    it("should support catch-all segments", () => {
+        const router = new Router<string>();
+        router.add("GET", "/files/*", "files");
+        router.add("GET", "/assets/*path", "assets");
+
+        expect(router.lookup("GET", "/files/a/b/c.txt")?.params).toEqual({ "*": "a/b/c.txt" });
+        expect(router.lookup("GET", "/files")?.params).toEqual({ "*": "" });
+        expect(router.lookup("GET", "/assets/css/app.css")?.params).toEqual({ path: "css/app.css" });
+    });
+
+    it("should reject duplicate routes", () => {
+        const router = new Router<string>();
+        router.add("GET", "/users/:id", "a");
+
+        expect(() => router.add("GET", "/users/:id", "b")).toThrow("Duplicate route detected");
+        expect(() => router.add("POST", "/users/:id", "c")).not.toThrow();
+    });
+
+    it("should expose every method registered on a path", () => {
+        const router = new Router<string>();
+        router.add("GET", "/users/:id", "get");
+        router.add("DELETE", "/users/:id", "delete");
+
+        expect([...(router.find("/users/1")?.handlers.keys() ?? [])]).toEqual(["GET", "DELETE"]);
+    });
+});